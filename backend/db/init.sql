@@ -1,16 +1,45 @@
+-- Create users table
+CREATE TABLE IF NOT EXISTS users (
+    id SERIAL PRIMARY KEY,
+    username VARCHAR(50) UNIQUE NOT NULL,
+    password_hash TEXT NOT NULL,
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT CURRENT_TIMESTAMP
+);
+
+-- Create sessions table for bearer token auth
+CREATE TABLE IF NOT EXISTS sessions (
+    token VARCHAR(64) PRIMARY KEY,
+    user_id INTEGER NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT CURRENT_TIMESTAMP,
+    expires_at TIMESTAMP WITH TIME ZONE NOT NULL
+);
+
 -- Create notes table
 CREATE TABLE IF NOT EXISTS notes (
     id SERIAL PRIMARY KEY,
+    user_id INTEGER NOT NULL REFERENCES users(id) ON DELETE CASCADE,
     content TEXT NOT NULL,
+    -- Goes up with every change to content, including checklist ticks, which don't create a version
+    revision INTEGER NOT NULL DEFAULT 1,
     created_at TIMESTAMP WITH TIME ZONE DEFAULT CURRENT_TIMESTAMP,
-    updated_at TIMESTAMP WITH TIME ZONE DEFAULT CURRENT_TIMESTAMP
+    updated_at TIMESTAMP WITH TIME ZONE DEFAULT CURRENT_TIMESTAMP,
+    deleted_at TIMESTAMP WITH TIME ZONE,
+    pinned BOOLEAN NOT NULL DEFAULT FALSE,
+    archived BOOLEAN NOT NULL DEFAULT FALSE,
+    remind_at TIMESTAMP WITH TIME ZONE,
+    reminded_at TIMESTAMP WITH TIME ZONE,
+    -- Set on voice notes while their recording is transcribed into the content
+    transcript_status VARCHAR(20) CHECK (transcript_status IN ('pending', 'processing', 'done', 'failed')),
+    transcript_error TEXT
 );
 
 -- Create tags table
 CREATE TABLE IF NOT EXISTS tags (
     id SERIAL PRIMARY KEY,
-    name VARCHAR(100) UNIQUE NOT NULL,
-    source VARCHAR(10) DEFAULT 'AI' CHECK (source IN ('AI', 'Self'))
+    user_id INTEGER NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+    name VARCHAR(100) NOT NULL,
+    source VARCHAR(10) DEFAULT 'AI' CHECK (source IN ('AI', 'Self')),
+    UNIQUE (user_id, name)
 );
 
 -- Create note_tags junction table for many-to-many relationship
@@ -37,21 +66,86 @@ CREATE TABLE IF NOT EXISTS note_version_tags (
     PRIMARY KEY (note_version_id, tag_id)
 );
 
+-- Create attachments table; the files themselves live in the configured attachment storage
+CREATE TABLE IF NOT EXISTS attachments (
+    id SERIAL PRIMARY KEY,
+    note_id INTEGER NOT NULL REFERENCES notes(id) ON DELETE CASCADE,
+    version INTEGER NOT NULL,
+    filename TEXT NOT NULL,
+    content_type VARCHAR(255) NOT NULL,
+    size_bytes INTEGER NOT NULL,
+    storage_key TEXT NOT NULL,
+    thumbnail_key TEXT,
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT CURRENT_TIMESTAMP
+);
+
+-- The recording a voice note is transcribed from (added here since attachments is created after notes)
+ALTER TABLE notes ADD COLUMN IF NOT EXISTS transcript_attachment_id INTEGER REFERENCES attachments(id) ON DELETE SET NULL;
+
+-- Create saved_views table for named filter combinations
+CREATE TABLE IF NOT EXISTS saved_views (
+    id SERIAL PRIMARY KEY,
+    user_id INTEGER NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+    name VARCHAR(100) NOT NULL,
+    filters JSONB NOT NULL DEFAULT '{}'::jsonb,
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT CURRENT_TIMESTAMP,
+    UNIQUE (user_id, name)
+);
+
+-- Create note_drafts table for unsaved editor text; note_id is NULL for the new-note draft
+CREATE TABLE IF NOT EXISTS note_drafts (
+    id SERIAL PRIMARY KEY,
+    user_id INTEGER NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+    note_id INTEGER REFERENCES notes(id) ON DELETE CASCADE,
+    content TEXT NOT NULL,
+    base_version INTEGER,
+    updated_at TIMESTAMP WITH TIME ZONE DEFAULT CURRENT_TIMESTAMP
+);
+
+-- Create push_subscriptions table for Web Push reminder notifications (one row per browser)
+CREATE TABLE IF NOT EXISTS push_subscriptions (
+    id SERIAL PRIMARY KEY,
+    user_id INTEGER NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+    endpoint TEXT NOT NULL UNIQUE,
+    p256dh TEXT NOT NULL,
+    auth TEXT NOT NULL,
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT CURRENT_TIMESTAMP
+);
+
 -- Create indexes for better query performance
+CREATE INDEX IF NOT EXISTS idx_sessions_user_id ON sessions(user_id);
+CREATE INDEX IF NOT EXISTS idx_notes_user_id ON notes(user_id);
 CREATE INDEX IF NOT EXISTS idx_notes_created_at ON notes(created_at DESC);
+CREATE INDEX IF NOT EXISTS idx_notes_deleted_at ON notes(deleted_at);
+CREATE INDEX IF NOT EXISTS idx_notes_remind_at ON notes(remind_at) WHERE reminded_at IS NULL;
+CREATE INDEX IF NOT EXISTS idx_notes_transcript_pending ON notes(id) WHERE transcript_status = 'pending';
+CREATE INDEX IF NOT EXISTS idx_push_subscriptions_user_id ON push_subscriptions(user_id);
 CREATE INDEX IF NOT EXISTS idx_tags_name ON tags(name);
+CREATE INDEX IF NOT EXISTS idx_tags_user_id ON tags(user_id);
 CREATE INDEX IF NOT EXISTS idx_note_tags_note_id ON note_tags(note_id);
 CREATE INDEX IF NOT EXISTS idx_note_tags_tag_id ON note_tags(tag_id);
 CREATE INDEX IF NOT EXISTS idx_note_versions_note_id ON note_versions(note_id);
 CREATE INDEX IF NOT EXISTS idx_note_versions_version ON note_versions(note_id, version);
 CREATE INDEX IF NOT EXISTS idx_note_version_tags_note_version_id ON note_version_tags(note_version_id);
 CREATE INDEX IF NOT EXISTS idx_note_version_tags_tag_id ON note_version_tags(tag_id);
+CREATE INDEX IF NOT EXISTS idx_attachments_note_id ON attachments(note_id);
+
+-- One draft per note, plus one new-note draft, per user
+CREATE UNIQUE INDEX IF NOT EXISTS idx_note_drafts_note ON note_drafts(user_id, note_id) WHERE note_id IS NOT NULL;
+CREATE UNIQUE INDEX IF NOT EXISTS idx_note_drafts_new ON note_drafts(user_id) WHERE note_id IS NULL;
+
+-- Full-text search indexes (expressions must match the queries in notes.ts)
+CREATE INDEX IF NOT EXISTS idx_notes_content_search ON notes USING GIN (to_tsvector('english', content));
+CREATE INDEX IF NOT EXISTS idx_note_versions_content_search ON note_versions USING GIN (to_tsvector('english', content));
 
--- Function to update updated_at timestamp
+-- Function to update updated_at timestamp (only when content changes,
+-- so trashing/restoring a note doesn't reorder it)
 CREATE OR REPLACE FUNCTION update_updated_at_column()
 RETURNS TRIGGER AS $$
 BEGIN
-    NEW.updated_at = CURRENT_TIMESTAMP;
+    IF NEW.content IS DISTINCT FROM OLD.content THEN
+        NEW.updated_at = CURRENT_TIMESTAMP;
+    END IF;
     RETURN NEW;
 END;
 $$ language 'plpgsql';
@@ -0,0 +1,4 @@
+-- Migration script to track checklist ticks, which change a note's content without creating a version
+-- Run this if you already have an existing database
+
+ALTER TABLE notes ADD COLUMN IF NOT EXISTS revision INTEGER NOT NULL DEFAULT 1;
@@ -0,0 +1,14 @@
+-- Migration script to add auto-saved drafts for new and edited notes
+-- Run this if you already have an existing database
+
+CREATE TABLE IF NOT EXISTS note_drafts (
+    id SERIAL PRIMARY KEY,
+    user_id INTEGER NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+    note_id INTEGER REFERENCES notes(id) ON DELETE CASCADE,
+    content TEXT NOT NULL,
+    base_version INTEGER,
+    updated_at TIMESTAMP WITH TIME ZONE DEFAULT CURRENT_TIMESTAMP
+);
+
+CREATE UNIQUE INDEX IF NOT EXISTS idx_note_drafts_note ON note_drafts(user_id, note_id) WHERE note_id IS NOT NULL;
+CREATE UNIQUE INDEX IF NOT EXISTS idx_note_drafts_new ON note_drafts(user_id) WHERE note_id IS NULL;
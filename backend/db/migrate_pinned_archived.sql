@@ -0,0 +1,5 @@
+-- Migration script to add pinned and archived notes
+-- Run this if you already have an existing database
+
+ALTER TABLE notes ADD COLUMN IF NOT EXISTS pinned BOOLEAN NOT NULL DEFAULT FALSE;
+ALTER TABLE notes ADD COLUMN IF NOT EXISTS archived BOOLEAN NOT NULL DEFAULT FALSE;
@@ -0,0 +1,6 @@
+-- Migration script to add full-text search over notes and version history
+-- Run this if you already have an existing database
+
+-- Full-text search indexes (expressions must match the queries in notes.ts)
+CREATE INDEX IF NOT EXISTS idx_notes_content_search ON notes USING GIN (to_tsvector('english', content));
+CREATE INDEX IF NOT EXISTS idx_note_versions_content_search ON note_versions USING GIN (to_tsvector('english', content));
@@ -0,0 +1,9 @@
+-- Migration script to add voice note transcription
+-- Run this if you already have an existing database
+
+ALTER TABLE notes ADD COLUMN IF NOT EXISTS transcript_status VARCHAR(20)
+    CHECK (transcript_status IN ('pending', 'processing', 'done', 'failed'));
+ALTER TABLE notes ADD COLUMN IF NOT EXISTS transcript_error TEXT;
+ALTER TABLE notes ADD COLUMN IF NOT EXISTS transcript_attachment_id INTEGER REFERENCES attachments(id) ON DELETE SET NULL;
+
+CREATE INDEX IF NOT EXISTS idx_notes_transcript_pending ON notes(id) WHERE transcript_status = 'pending';
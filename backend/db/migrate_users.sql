@@ -0,0 +1,43 @@
+-- Migration script to add user accounts and per-user note ownership
+-- Run this if you already have an existing database
+--
+-- Existing notes and tags are left without an owner; the first account
+-- registered afterwards claims them and makes user_id NOT NULL (see registerUser in auth.ts).
+
+-- Create users table
+CREATE TABLE IF NOT EXISTS users (
+    id SERIAL PRIMARY KEY,
+    username VARCHAR(50) UNIQUE NOT NULL,
+    password_hash TEXT NOT NULL,
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT CURRENT_TIMESTAMP
+);
+
+-- Create sessions table for bearer token auth
+CREATE TABLE IF NOT EXISTS sessions (
+    token VARCHAR(64) PRIMARY KEY,
+    user_id INTEGER NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT CURRENT_TIMESTAMP,
+    expires_at TIMESTAMP WITH TIME ZONE NOT NULL
+);
+
+-- Add owner columns
+ALTER TABLE notes ADD COLUMN IF NOT EXISTS user_id INTEGER REFERENCES users(id) ON DELETE CASCADE;
+ALTER TABLE tags ADD COLUMN IF NOT EXISTS user_id INTEGER REFERENCES users(id) ON DELETE CASCADE;
+
+-- Tag names are now unique per user instead of globally
+ALTER TABLE tags DROP CONSTRAINT IF EXISTS tags_name_key;
+ALTER TABLE tags DROP CONSTRAINT IF EXISTS tags_user_id_name_key;
+ALTER TABLE tags ADD CONSTRAINT tags_user_id_name_key UNIQUE (user_id, name);
+
+CREATE INDEX IF NOT EXISTS idx_sessions_user_id ON sessions(user_id);
+CREATE INDEX IF NOT EXISTS idx_notes_user_id ON notes(user_id);
+CREATE INDEX IF NOT EXISTS idx_tags_user_id ON tags(user_id);
+
+-- With nothing left to claim (no old notes or tags, or an account already claimed them), owners are required now
+DO $$
+BEGIN
+    IF NOT EXISTS (SELECT 1 FROM notes WHERE user_id IS NULL) AND NOT EXISTS (SELECT 1 FROM tags WHERE user_id IS NULL) THEN
+        ALTER TABLE notes ALTER COLUMN user_id SET NOT NULL;
+        ALTER TABLE tags ALTER COLUMN user_id SET NOT NULL;
+    END IF;
+END $$;
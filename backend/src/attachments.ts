@@ -0,0 +1,148 @@
+import { randomUUID } from 'crypto';
+import path from 'path';
+import { Readable } from 'stream';
+import sharp from 'sharp';
+import { pool } from './db';
+import { getUpdatedNote } from './notes';
+import { getAttachmentStorage, deleteStoredFiles } from './storage';
+import { Attachment } from './types';
+
+export const ATTACHMENT_MAX_BYTES = parseInt(process.env.ATTACHMENT_MAX_MB || '25') * 1024 * 1024;
+export const ATTACHMENT_MAX_FILES = 10;
+const THUMBNAIL_SIZE = 320;
+
+// Images, PDFs and audio. SVG is left out since it can carry scripts and is served from our origin.
+const ALLOWED_TYPE_PATTERN = /^(image\/(png|jpeg|gif|webp|avif|heic|heif)|application\/pdf|audio\/[a-z0-9.+-]+)$/;
+
+const ATTACHMENT_COLUMNS = `a.id, a.note_id, a.version, a.filename, a.content_type, a.size_bytes,
+  a.thumbnail_key IS NOT NULL as has_thumbnail, a.created_at`;
+
+export interface UploadedFile {
+  originalname: string;
+  mimetype: string;
+  buffer: Buffer;
+}
+
+// "audio/webm;codecs=opus" -> "audio/webm"
+export function normalizeContentType(contentType: string): string {
+  return contentType.split(';')[0].trim().toLowerCase();
+}
+
+export function isAllowedAttachmentType(contentType: string): boolean {
+  return ALLOWED_TYPE_PATTERN.test(normalizeContentType(contentType));
+}
+
+// Formats sharp can't read (e.g. HEIC without libheif) just don't get a thumbnail
+async function createThumbnail(file: UploadedFile): Promise<Buffer | null> {
+  if (!normalizeContentType(file.mimetype).startsWith('image/')) return null;
+
+  try {
+    return await sharp(file.buffer)
+      .rotate()
+      .resize(THUMBNAIL_SIZE, THUMBNAIL_SIZE, { fit: 'inside', withoutEnlargement: true })
+      .webp({ quality: 75 })
+      .toBuffer();
+  } catch (error) {
+    console.error(`Could not create a thumbnail for ${file.originalname}:`, error);
+    return null;
+  }
+}
+
+/**
+ * Stores the files and attaches them to the note at its current version.
+ * Returns null if the note doesn't exist or is in the trash.
+ */
+export async function addAttachments(userId: number, noteId: number, files: UploadedFile[]): Promise<Attachment[] | null> {
+  const noteResult = await pool.query(
+    `SELECT COALESCE((SELECT MAX(version) FROM note_versions WHERE note_id = n.id), 1) as current_version
+     FROM notes n WHERE n.id = $1 AND n.user_id = $2 AND n.deleted_at IS NULL`,
+    [noteId, userId]
+  );
+  if (noteResult.rows.length === 0) return null;
+  const version: number = noteResult.rows[0].current_version;
+
+  const storage = getAttachmentStorage();
+  const attachments: Attachment[] = [];
+
+  for (const file of files) {
+    const extension = path.extname(file.originalname).toLowerCase();
+    const key = `${userId}/${noteId}/${randomUUID()}${/^\.[a-z0-9]{1,10}$/.test(extension) ? extension : ''}`;
+    const contentType = normalizeContentType(file.mimetype);
+    const thumbnail = await createThumbnail(file);
+    const thumbnailKey = thumbnail ? `${key}.thumb.webp` : null;
+
+    await storage.put(key, file.buffer, contentType);
+    if (thumbnail && thumbnailKey) {
+      await storage.put(thumbnailKey, thumbnail, 'image/webp');
+    }
+
+    try {
+      const result = await pool.query(
+        `INSERT INTO attachments (note_id, version, filename, content_type, size_bytes, storage_key, thumbnail_key)
+         VALUES ($1, $2, $3, $4, $5, $6, $7)
+         RETURNING id, note_id, version, filename, content_type, size_bytes,
+           thumbnail_key IS NOT NULL as has_thumbnail, created_at`,
+        [noteId, version, path.basename(file.originalname).slice(0, 255) || 'file', contentType, file.buffer.length, key, thumbnailKey]
+      );
+      attachments.push(result.rows[0]);
+    } catch (error) {
+      await deleteStoredFiles(thumbnailKey ? [key, thumbnailKey] : [key]);
+      throw error;
+    }
+  }
+
+  await getUpdatedNote(userId, noteId);
+  return attachments;
+}
+
+export async function getAttachments(userId: number, noteId: number): Promise<Attachment[] | null> {
+  const noteResult = await pool.query('SELECT id FROM notes WHERE id = $1 AND user_id = $2', [noteId, userId]);
+  if (noteResult.rows.length === 0) return null;
+
+  const result = await pool.query(
+    `SELECT ${ATTACHMENT_COLUMNS} FROM attachments a WHERE a.note_id = $1 ORDER BY a.id`,
+    [noteId]
+  );
+  return result.rows;
+}
+
+/**
+ * Opens an attachment's file (or its thumbnail) for streaming. Attachments on trashed notes can
+ * still be opened, like the notes themselves. Returns null if there is no such attachment or thumbnail.
+ */
+export async function openAttachment(
+  userId: number,
+  id: number,
+  thumbnail = false
+): Promise<{ attachment: Attachment; contentType: string; stream: Readable } | null> {
+  const result = await pool.query(
+    `SELECT ${ATTACHMENT_COLUMNS}, a.storage_key, a.thumbnail_key
+     FROM attachments a
+     JOIN notes n ON a.note_id = n.id
+     WHERE a.id = $1 AND n.user_id = $2`,
+    [id, userId]
+  );
+  if (result.rows.length === 0) return null;
+
+  const { storage_key, thumbnail_key, ...attachment } = result.rows[0];
+  const key = thumbnail ? thumbnail_key : storage_key;
+  if (!key) return null;
+
+  const stream = await getAttachmentStorage().get(key);
+  return { attachment, contentType: thumbnail ? 'image/webp' : attachment.content_type, stream };
+}
+
+export async function deleteAttachment(userId: number, id: number): Promise<boolean> {
+  const result = await pool.query(
+    `DELETE FROM attachments a USING notes n
+     WHERE a.id = $1 AND a.note_id = n.id AND n.user_id = $2
+     RETURNING a.note_id, a.storage_key, a.thumbnail_key`,
+    [id, userId]
+  );
+  if (result.rows.length === 0) return false;
+
+  const { note_id, storage_key, thumbnail_key } = result.rows[0];
+  await deleteStoredFiles(thumbnail_key ? [storage_key, thumbnail_key] : [storage_key]);
+  await getUpdatedNote(userId, note_id);
+  return true;
+}
@@ -0,0 +1,147 @@
+import { randomBytes, scrypt, timingSafeEqual } from 'crypto';
+import { promisify } from 'util';
+import { Request, Response, NextFunction } from 'express';
+import { pool } from './db';
+import { User, AuthResponse } from './types';
+
+declare global {
+  namespace Express {
+    interface Request {
+      user?: User;
+    }
+  }
+}
+
+const scryptAsync = promisify(scrypt) as (password: string, salt: string, keylen: number) => Promise<Buffer>;
+
+const SESSION_TTL_DAYS = parseInt(process.env.SESSION_TTL_DAYS || '30');
+const KEY_LENGTH = 64;
+
+// Stored as "salt:hash", both hex encoded
+async function hashPassword(password: string): Promise<string> {
+  const salt = randomBytes(16).toString('hex');
+  const hash = await scryptAsync(password, salt, KEY_LENGTH);
+  return `${salt}:${hash.toString('hex')}`;
+}
+
+async function verifyPassword(password: string, stored: string): Promise<boolean> {
+  const [salt, hash] = stored.split(':');
+  if (!salt || !hash) return false;
+
+  const expected = Buffer.from(hash, 'hex');
+  const actual = await scryptAsync(password, salt, KEY_LENGTH);
+  return expected.length === actual.length && timingSafeEqual(expected, actual);
+}
+
+async function createSession(user: User): Promise<AuthResponse> {
+  const token = randomBytes(32).toString('hex');
+  await pool.query(
+    `INSERT INTO sessions (token, user_id, expires_at)
+     VALUES ($1, $2, CURRENT_TIMESTAMP + make_interval(days => $3))`,
+    [token, user.id, SESSION_TTL_DAYS]
+  );
+  return { token, user };
+}
+
+export async function registerUser(username: string, password: string): Promise<AuthResponse | null> {
+  const passwordHash = await hashPassword(password);
+  const client = await pool.connect();
+  try {
+    await client.query('BEGIN');
+    // Registrations take turns, so exactly one of two simultaneous first accounts sees itself as the first
+    await client.query('LOCK TABLE users IN SHARE ROW EXCLUSIVE MODE');
+
+    const userResult = await client.query(
+      `INSERT INTO users (username, password_hash) VALUES ($1, $2)
+       ON CONFLICT (username) DO NOTHING
+       RETURNING id, username, created_at`,
+      [username.toLowerCase(), passwordHash]
+    );
+
+    if (!userResult.rows[0]) {
+      await client.query('ROLLBACK');
+      return null;
+    }
+
+    const user: User = userResult.rows[0];
+
+    // The first account claims any notes and tags from before accounts existed
+    const countResult = await client.query('SELECT CAST(COUNT(*) AS INTEGER) as count FROM users');
+    if (countResult.rows[0].count === 1) {
+      await client.query('UPDATE notes SET user_id = $1 WHERE user_id IS NULL', [user.id]);
+      await client.query('UPDATE tags SET user_id = $1 WHERE user_id IS NULL', [user.id]);
+      // Everything has an owner now; databases from migrate_users.sql still allow NULL until this point
+      await client.query('ALTER TABLE notes ALTER COLUMN user_id SET NOT NULL');
+      await client.query('ALTER TABLE tags ALTER COLUMN user_id SET NOT NULL');
+    }
+
+    await client.query('COMMIT');
+
+    return await createSession(user);
+  } catch (error) {
+    await client.query('ROLLBACK');
+    throw error;
+  } finally {
+    client.release();
+  }
+}
+
+export async function loginUser(username: string, password: string): Promise<AuthResponse | null> {
+  const result = await pool.query(
+    'SELECT id, username, created_at, password_hash FROM users WHERE username = $1',
+    [username.toLowerCase()]
+  );
+  const row = result.rows[0];
+
+  if (!row || !(await verifyPassword(password, row.password_hash))) {
+    return null;
+  }
+
+  const { password_hash, ...user } = row;
+  return await createSession(user);
+}
+
+export async function logoutSession(token: string): Promise<void> {
+  await pool.query('DELETE FROM sessions WHERE token = $1', [token]);
+}
+
+export async function getUserBySession(token: string): Promise<User | null> {
+  const result = await pool.query(
+    `SELECT u.id, u.username, u.created_at
+     FROM sessions s
+     JOIN users u ON s.user_id = u.id
+     WHERE s.token = $1 AND s.expires_at > CURRENT_TIMESTAMP`,
+    [token]
+  );
+  return result.rows[0] || null;
+}
+
+export async function purgeExpiredSessions(): Promise<number> {
+  const result = await pool.query('DELETE FROM sessions WHERE expires_at <= CURRENT_TIMESTAMP');
+  return result.rowCount || 0;
+}
+
+export function getBearerToken(req: Request): string | null {
+  const header = req.headers.authorization;
+  if (!header || !header.startsWith('Bearer ')) return null;
+  return header.slice('Bearer '.length).trim() || null;
+}
+
+// Rejects requests without a valid session token and attaches the user to req.user
+export async function requireAuth(req: Request, res: Response, next: NextFunction) {
+  try {
+    const token = getBearerToken(req);
+    const user = token ? await getUserBySession(token) : null;
+
+    if (!user) {
+      res.status(401).json({ error: 'Authentication required' });
+      return;
+    }
+
+    req.user = user;
+    next();
+  } catch (error) {
+    console.error('Error authenticating request:', error);
+    res.status(500).json({ error: 'Failed to authenticate request' });
+  }
+}
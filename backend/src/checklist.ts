@@ -0,0 +1,14 @@
+// The box on a task item's line: "- [ ] text", "* [x] text", "1. [ ] text", also quoted ("> - [ ]")
+// or after another list marker ("- - [ ]"). Which lines are task items is up to the Markdown
+// renderer, so clients find them with the same lexer that draws the checkboxes and send the line.
+const TASK_BOX_PATTERN = /^([ \t>]*(?:(?:[-*+]|\d{1,9}[.)])[ \t]+[ \t>]*)+\[)([ xX])(\])/;
+
+// Returns the content with the box on that line (numbered from 0) ticked or unticked, or null if it has none
+export function setChecklistItemChecked(content: string, line: number, checked: boolean): string | null {
+  const lines = content.split('\n');
+  if (line < 0 || line >= lines.length || !TASK_BOX_PATTERN.test(lines[line])) return null;
+
+  lines[line] = lines[line].replace(TASK_BOX_PATTERN, (_, before, mark, after) =>
+    `${before}${checked ? (mark === ' ' ? 'x' : mark) : ' '}${after}`);
+  return lines.join('\n');
+}
@@ -0,0 +1,55 @@
+import { pool } from './db';
+import { NoteDraft } from './types';
+
+// Drafts are kept apart from notes so autosaving never creates versions; they are
+// keyed by note id, or null for the new-note form
+export type DraftKey = number | null;
+
+const DRAFT_COLUMNS = 'note_id, content, base_version, updated_at';
+
+export async function getDraft(userId: number, noteId: DraftKey): Promise<NoteDraft | null> {
+  const result = await pool.query(
+    `SELECT ${DRAFT_COLUMNS} FROM note_drafts
+     WHERE user_id = $1 AND note_id IS NOT DISTINCT FROM $2`,
+    [userId, noteId]
+  );
+  return result.rows[0] || null;
+}
+
+// Returns null if the note doesn't exist, is in the trash, or belongs to someone else
+export async function saveDraft(
+  userId: number,
+  noteId: DraftKey,
+  content: string,
+  baseVersion?: number
+): Promise<NoteDraft | null> {
+  const upsert = `DO UPDATE SET
+       content = EXCLUDED.content,
+       base_version = EXCLUDED.base_version,
+       updated_at = CURRENT_TIMESTAMP
+     RETURNING ${DRAFT_COLUMNS}`;
+
+  const result = noteId === null
+    ? await pool.query(
+        `INSERT INTO note_drafts (user_id, note_id, content, base_version)
+         VALUES ($1, NULL, $2, $3)
+         ON CONFLICT (user_id) WHERE note_id IS NULL ${upsert}`,
+        [userId, content, baseVersion ?? null]
+      )
+    : await pool.query(
+        `INSERT INTO note_drafts (user_id, note_id, content, base_version)
+         SELECT $1, id, $3, $4 FROM notes WHERE id = $2 AND user_id = $1 AND deleted_at IS NULL
+         ON CONFLICT (user_id, note_id) WHERE note_id IS NOT NULL ${upsert}`,
+        [userId, noteId, content, baseVersion ?? null]
+      );
+
+  return result.rows[0] || null;
+}
+
+export async function deleteDraft(userId: number, noteId: DraftKey): Promise<boolean> {
+  const result = await pool.query(
+    'DELETE FROM note_drafts WHERE user_id = $1 AND note_id IS NOT DISTINCT FROM $2',
+    [userId, noteId]
+  );
+  return (result.rowCount || 0) > 0;
+}
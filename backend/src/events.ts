@@ -0,0 +1,38 @@
+import { EventEmitter } from 'events';
+import { Request, Response } from 'express';
+import { SyncEvent } from './types';
+
+const HEARTBEAT_INTERVAL_MS = 25 * 1000;
+
+// In-process only: every client of a user must be connected to the same backend instance
+const emitter = new EventEmitter();
+emitter.setMaxListeners(0);
+
+export function publishEvent(userId: number, event: SyncEvent): void {
+  emitter.emit(`user:${userId}`, event);
+}
+
+/**
+ * Holds the response open as a Server-Sent Events stream of the user's SyncEvents
+ * until the client disconnects. Comment lines are sent periodically so proxies keep it open.
+ */
+export function streamEvents(userId: number, req: Request, res: Response): void {
+  res.writeHead(200, {
+    'Content-Type': 'text/event-stream',
+    'Cache-Control': 'no-cache',
+    Connection: 'keep-alive',
+    'X-Accel-Buffering': 'no',
+  });
+  res.write(': connected\n\n');
+
+  const send = (event: SyncEvent) => {
+    res.write(`data: ${JSON.stringify(event)}\n\n`);
+  };
+  const heartbeat = setInterval(() => res.write(': ping\n\n'), HEARTBEAT_INTERVAL_MS);
+
+  emitter.on(`user:${userId}`, send);
+  req.on('close', () => {
+    clearInterval(heartbeat);
+    emitter.off(`user:${userId}`, send);
+  });
+}
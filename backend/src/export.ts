@@ -0,0 +1,176 @@
+import { once } from 'events';
+import { PassThrough, Writable } from 'stream';
+import archiver from 'archiver';
+import { getNotes, getNoteVersions, parseNoteCursor } from './notes';
+import { Note, NoteCursor, NoteVersion, ExportOptions, ExportedNote, ExportArchive } from './types';
+
+export const EXPORT_FORMAT_VERSION = 1;
+
+const EXPORT_PAGE_SIZE = 500;
+
+// Walks every matching note page by page so large accounts aren't loaded in one query
+async function* iterateNotes(userId: number, options: ExportOptions): AsyncGenerator<Note> {
+  let cursor: NoteCursor | undefined;
+  while (true) {
+    const page = await getNotes(userId, {
+      ids: options.noteIds,
+      archived: 'include',
+      tags: options.tags,
+      tagMode: options.tagMode,
+      excludeTags: options.excludeTags,
+      sortBy: 'created_at',
+      sortOrder: 'asc',
+      limit: EXPORT_PAGE_SIZE,
+      cursor,
+    });
+    yield* page.notes;
+
+    const next = page.next_cursor ? parseNoteCursor(page.next_cursor) : null;
+    if (!next) return;
+    cursor = next;
+  }
+}
+
+function toIso(date: Date | string): string {
+  return new Date(date).toISOString();
+}
+
+function tagNames(item: Note | NoteVersion): string[] {
+  return (item.tags || []).map(tag => tag.name);
+}
+
+// Filename-safe slug from the first line of the note
+function slugify(content: string): string {
+  const slug = content
+    .split('\n')[0]
+    .toLowerCase()
+    .replace(/[^a-z0-9]+/g, '-')
+    .replace(/^-+|-+$/g, '')
+    .slice(0, 40)
+    .replace(/-+$/, '');
+  return slug || 'note';
+}
+
+// JSON scalars and arrays are valid YAML, so values are JSON-encoded to keep quoting safe
+function frontMatter(fields: Record<string, unknown>): string {
+  const lines = Object.entries(fields).map(([key, value]) => `${key}: ${JSON.stringify(value)}`);
+  return `---\n${lines.join('\n')}\n---\n\n`;
+}
+
+function toExportedNote(note: Note, versions?: NoteVersion[]): ExportedNote {
+  return {
+    id: note.id,
+    content: note.content,
+    created_at: toIso(note.created_at),
+    updated_at: toIso(note.updated_at),
+    tags: tagNames(note),
+    versions: versions?.map(version => ({
+      version: version.version,
+      content: version.content,
+      created_at: toIso(version.created_at),
+      tags: tagNames(version),
+    })),
+  };
+}
+
+// Indents pretty-printed JSON to sit inside the export's notes array
+function indentJson(value: unknown, indent: string): string {
+  return JSON.stringify(value, null, 2).replace(/\n/g, `\n${indent}`);
+}
+
+/**
+ * Writes a ZIP of the user's notes to `output`.
+ * JSON exports contain a single notes.json; Markdown exports contain one file per note
+ * with tags and timestamps as YAML front-matter, plus history/<note>/v<N>.md when requested.
+ */
+export async function writeExportArchive(userId: number, options: ExportOptions, output: Writable): Promise<void> {
+  const archive = archiver('zip', { zlib: { level: 9 } });
+
+  // A download closed part way stops the export; otherwise it would wait forever for the archive to drain
+  const stopped = new AbortController();
+  const stop = (reason: Error) => {
+    if (!stopped.signal.aborted) stopped.abort(reason);
+  };
+  const failed = new Promise<never>((_, reject) =>
+    stopped.signal.addEventListener('abort', () => reject(stopped.signal.reason)));
+  archive.on('error', stop);
+  output.on('error', stop);
+  output.on('close', () => {
+    if (!output.writableFinished) stop(new Error('The export download was closed before it finished'));
+  });
+  archive.pipe(output);
+
+  // notes.json is written note by note as the archive reads it, so it is never held in memory whole
+  const json = options.format === 'json' ? new PassThrough() : null;
+  const writeJson = async (chunk: string) => {
+    if (json && !json.write(chunk)) await once(json, 'drain', { signal: stopped.signal });
+  };
+
+  // Markdown files are added one at a time, each once the archive has taken the one before
+  const appendFile = async (content: string, data: archiver.EntryData) => {
+    const added = once(archive, 'entry', { signal: stopped.signal });
+    archive.append(content, data);
+    await added;
+  };
+
+  const build = async () => {
+    let exportedCount = 0;
+
+    if (json) {
+      archive.append(json, { name: 'notes.json' });
+      const header: Omit<ExportArchive, 'notes'> = {
+        format_version: EXPORT_FORMAT_VERSION,
+        exported_at: new Date().toISOString(),
+      };
+      await writeJson(`${JSON.stringify(header, null, 2).slice(0, -2)},\n  "notes": [`);
+    }
+
+    for await (const note of iterateNotes(userId, options)) {
+      const versions = options.includeHistory ? await getNoteVersions(userId, note.id) : undefined;
+
+      if (json) {
+        const exported: ExportedNote = toExportedNote(note, versions);
+        await writeJson(`${exportedCount++ > 0 ? ',' : ''}\n    ${indentJson(exported, '    ')}`);
+        continue;
+      }
+
+      const baseName = `${note.id}-${slugify(note.content)}`;
+      await appendFile(
+        frontMatter({
+          id: note.id,
+          created: toIso(note.created_at),
+          updated: toIso(note.updated_at),
+          tags: tagNames(note),
+        }) + note.content + '\n',
+        { name: `notes/${baseName}.md`, date: new Date(note.updated_at) }
+      );
+
+      for (const version of versions || []) {
+        await appendFile(
+          frontMatter({
+            note_id: note.id,
+            version: version.version,
+            created: toIso(version.created_at),
+            tags: tagNames(version),
+          }) + version.content + '\n',
+          { name: `history/${baseName}/v${version.version}.md`, date: new Date(version.created_at) }
+        );
+      }
+    }
+
+    if (json) {
+      await writeJson(exportedCount > 0 ? '\n  ]\n}' : ']\n}');
+      json.end();
+    }
+
+    await archive.finalize();
+  };
+
+  try {
+    await Promise.race([build(), failed]);
+  } catch (error) {
+    stop(error instanceof Error ? error : new Error(String(error)));
+    archive.abort();
+    throw error;
+  }
+}
@@ -0,0 +1,397 @@
+import path from 'path';
+import JSZip from 'jszip';
+import { parse as parseYaml } from 'yaml';
+import { XMLParser } from 'fast-xml-parser';
+import { normalizeTagName } from './notes';
+import { ExportArchive, ImportedNote, ImportParseResult } from './types';
+
+export const IMPORT_MAX_FILE_BYTES = 50 * 1024 * 1024;
+// Uploads are held in memory while they're parsed, so this caps one request at 200 MB
+export const IMPORT_MAX_FILES = 4;
+// A small ZIP can inflate to far more than it weighs, so archives are capped by what they contain too
+const IMPORT_MAX_ZIP_ENTRIES = 10000;
+const IMPORT_MAX_UNCOMPRESSED_BYTES = 200 * 1024 * 1024;
+
+const MARKDOWN_EXTENSIONS = ['.md', '.markdown', '.txt'];
+
+function emptyResult(): ImportParseResult {
+  return { notes: [], skipped: [] };
+}
+
+function merge(target: ImportParseResult, other: ImportParseResult): void {
+  target.notes.push(...other.notes);
+  target.skipped.push(...other.skipped);
+}
+
+// Accepts ISO strings, epoch milliseconds and Evernote's compact 20130730T205204Z form
+function parseDate(value: unknown): Date | null {
+  if (value instanceof Date) {
+    return isNaN(value.getTime()) ? null : value;
+  }
+  if (typeof value === 'number') {
+    return isNaN(value) ? null : new Date(value);
+  }
+  if (typeof value !== 'string' || value.trim() === '') {
+    return null;
+  }
+
+  const compact = value.trim().match(/^(\d{4})(\d{2})(\d{2})T(\d{2})(\d{2})(\d{2})Z$/);
+  const date = compact
+    ? new Date(Date.UTC(+compact[1], +compact[2] - 1, +compact[3], +compact[4], +compact[5], +compact[6]))
+    : new Date(value);
+  return isNaN(date.getTime()) ? null : date;
+}
+
+// Tags are stored lowercase, so normalise here to keep the dry-run report accurate
+function normalizeTags(value: unknown): string[] {
+  const raw = Array.isArray(value)
+    ? value
+    : typeof value === 'string' ? value.split(',') : [];
+
+  const names = raw
+    .filter((tag): tag is string | number => typeof tag === 'string' || typeof tag === 'number')
+    .map(tag => normalizeTagName(String(tag).trim().replace(/^#/, '')).slice(0, 100))
+    .filter(tag => tag.length > 0);
+  return [...new Set(names)];
+}
+
+function withTitle(title: unknown, body: string): string {
+  const trimmedTitle = typeof title === 'string' ? title.trim() : '';
+  if (!trimmedTitle || body.trimStart().startsWith('#')) {
+    return body;
+  }
+  return body ? `# ${trimmedTitle}\n\n${body}` : `# ${trimmedTitle}`;
+}
+
+function singleVersionNote(source: string, content: string, createdAt: Date, updatedAt: Date, tags: string[]): ImportedNote {
+  return {
+    source,
+    content,
+    created_at: createdAt,
+    updated_at: updatedAt,
+    tags,
+    versions: [{ content, created_at: createdAt, tags }],
+  };
+}
+
+function decodeEntities(text: string): string {
+  return text
+    .replace(/&nbsp;/g, ' ')
+    .replace(/&lt;/g, '<')
+    .replace(/&gt;/g, '>')
+    .replace(/&quot;/g, '"')
+    .replace(/&#39;|&apos;/g, "'")
+    .replace(/&#(\d+);/g, (_, code) => String.fromCodePoint(parseInt(code)))
+    .replace(/&#x([0-9a-f]+);/gi, (_, code) => String.fromCodePoint(parseInt(code, 16)))
+    .replace(/&amp;/g, '&');
+}
+
+// Rough ENML/HTML to Markdown conversion: keeps line structure, lists and checkboxes
+function htmlToMarkdown(html: string): string {
+  const text = html
+    .replace(/<en-todo[^>]*checked="true"[^>]*\/?>(<\/en-todo>)?/gi, '- [x] ')
+    .replace(/<en-todo[^>]*\/?>(<\/en-todo>)?/gi, '- [ ] ')
+    .replace(/<h([1-6])[^>]*>/gi, (_, level) => '#'.repeat(parseInt(level)) + ' ')
+    .replace(/<li[^>]*>/gi, '- ')
+    .replace(/<br\s*\/?>/gi, '\n')
+    .replace(/<\/(p|div|li|h[1-6]|tr|blockquote|pre)>/gi, '\n')
+    .replace(/<[^>]+>/g, '');
+
+  return decodeEntities(text)
+    .replace(/[ \t]+\n/g, '\n')
+    .replace(/\n{3,}/g, '\n\n')
+    .trim();
+}
+
+interface MarkdownFile {
+  fields: Record<string, unknown>;
+  body: string;
+}
+
+function splitFrontMatter(rawText: string): MarkdownFile {
+  const text = rawText.replace(/^\uFEFF/, '');
+  const match = text.match(/^---\r?\n([\s\S]*?)\r?\n---[ \t]*(?:\r?\n|$)/);
+  if (!match) {
+    return { fields: {}, body: text.trim() };
+  }
+
+  const fields = parseYaml(match[1]);
+  return {
+    fields: fields && typeof fields === 'object' && !Array.isArray(fields) ? fields : {},
+    body: text.slice(match[0].length).trim(),
+  };
+}
+
+function parseMarkdown(source: string, text: string, fallbackDate: Date, history: MarkdownFile[] = []): ImportParseResult {
+  let fields: Record<string, unknown>;
+  let body: string;
+  try {
+    ({ fields, body } = splitFrontMatter(text));
+  } catch {
+    return { notes: [], skipped: [{ source, reason: 'Invalid YAML front-matter' }] };
+  }
+  const content = withTitle(fields.title, body);
+
+  if (!content) {
+    return { notes: [], skipped: [{ source, reason: 'Empty note' }] };
+  }
+
+  const createdAt = parseDate(fields.created ?? fields.created_at ?? fields.date) || fallbackDate;
+  const updatedAt = parseDate(fields.updated ?? fields.updated_at ?? fields.modified) || createdAt;
+  const tags = normalizeTags(fields.tags);
+  const note = singleVersionNote(source, content, createdAt, updatedAt, tags);
+
+  // Older versions from one of our own Markdown exports (history/<note>/v<N>.md)
+  if (history.length > 0) {
+    note.versions = history
+      .sort((a, b) => Number(a.fields.version) - Number(b.fields.version))
+      .map(version => ({
+        content: version.body,
+        created_at: parseDate(version.fields.created) || createdAt,
+        tags: normalizeTags(version.fields.tags),
+      }));
+  }
+
+  return { notes: [note], skipped: [] };
+}
+
+function parseExportArchive(source: string, archive: ExportArchive): ImportParseResult {
+  const result = emptyResult();
+
+  archive.notes.forEach((exported, index) => {
+    if (!exported || typeof exported !== 'object') {
+      result.skipped.push({ source: `${source}#${index + 1}`, reason: 'Invalid note' });
+      return;
+    }
+
+    const noteSource = `${source}#${exported.id ?? index + 1}`;
+    const content = typeof exported.content === 'string' ? exported.content : '';
+    if (!content.trim()) {
+      result.skipped.push({ source: noteSource, reason: 'Empty note' });
+      return;
+    }
+
+    const createdAt = parseDate(exported.created_at) || new Date();
+    const updatedAt = parseDate(exported.updated_at) || createdAt;
+    const note = singleVersionNote(noteSource, content, createdAt, updatedAt, normalizeTags(exported.tags));
+
+    // Versions without text are left out and reported; the note keeps the rest of its history
+    const versions = Array.isArray(exported.versions)
+      ? exported.versions.filter((version, versionIndex) => {
+          if (version && typeof version === 'object' && typeof version.content === 'string') return true;
+          result.skipped.push({ source: `${noteSource} v${version?.version ?? versionIndex + 1}`, reason: 'Version has no content' });
+          return false;
+        })
+      : [];
+
+    if (versions.length > 0) {
+      note.versions = versions
+        .sort((a, b) => Number(a.version) - Number(b.version))
+        .map(version => ({
+          content: version.content,
+          created_at: parseDate(version.created_at) || createdAt,
+          tags: normalizeTags(version.tags),
+        }));
+    }
+
+    result.notes.push(note);
+  });
+
+  return result;
+}
+
+// One note per file in Google Keep Takeout (Takeout/Keep/*.json)
+function parseKeepNote(source: string, keep: any): ImportParseResult {
+  if (keep.isTrashed) {
+    return { notes: [], skipped: [{ source, reason: 'Note is in the Google Keep trash' }] };
+  }
+
+  // List items and labels that aren't objects are left out rather than failing the file
+  const body = Array.isArray(keep.listContent)
+    ? keep.listContent
+        .filter((item: unknown) => item && typeof item === 'object')
+        .map((item: any) => `- [${item.isChecked === true ? 'x' : ' '}] ${typeof item.text === 'string' ? item.text : ''}`)
+        .join('\n')
+    : typeof keep.textContent === 'string' ? keep.textContent.trim() : '';
+  const content = withTitle(keep.title, body);
+
+  if (!content) {
+    return { notes: [], skipped: [{ source, reason: 'Empty note' }] };
+  }
+
+  const updatedAt = parseDate(Number(keep.userEditedTimestampUsec) / 1000) || new Date();
+  const createdAt = parseDate(Number(keep.createdTimestampUsec) / 1000) || updatedAt;
+  const labels: unknown[] = Array.isArray(keep.labels) ? keep.labels : [];
+  const tags = normalizeTags(labels.map((label: any) => (label && typeof label === 'object' ? label.name : undefined)));
+
+  return { notes: [singleVersionNote(source, content, createdAt, updatedAt, tags)], skipped: [] };
+}
+
+function parseJson(source: string, text: string): ImportParseResult {
+  let data: any;
+  try {
+    data = JSON.parse(text);
+  } catch {
+    return { notes: [], skipped: [{ source, reason: 'Invalid JSON' }] };
+  }
+
+  // A file with an unexpected shape somewhere is skipped rather than failing the whole import
+  try {
+    if (data && Array.isArray(data.notes) && data.format_version !== undefined) {
+      return parseExportArchive(source, data);
+    }
+    if (data && typeof data === 'object' && ('textContent' in data || 'listContent' in data)) {
+      return parseKeepNote(source, data);
+    }
+  } catch (error) {
+    console.error(`Error parsing ${source}:`, error);
+    return { notes: [], skipped: [{ source, reason: 'Invalid note data' }] };
+  }
+  return { notes: [], skipped: [{ source, reason: 'Unrecognised JSON file' }] };
+}
+
+function parseEnex(source: string, text: string): ImportParseResult {
+  const parser = new XMLParser({
+    ignoreAttributes: true,
+    parseTagValue: false,
+    isArray: (name) => name === 'note' || name === 'tag',
+  });
+
+  let data: any;
+  try {
+    data = parser.parse(text);
+  } catch {
+    return { notes: [], skipped: [{ source, reason: 'Invalid ENEX file' }] };
+  }
+
+  const result = emptyResult();
+  const enexNotes: any[] = data?.['en-export']?.note || [];
+
+  enexNotes.forEach((enexNote, index) => {
+    const noteSource = `${source}#${index + 1}`;
+    const content = withTitle(enexNote.title, htmlToMarkdown(String(enexNote.content || '')));
+    if (!content) {
+      result.skipped.push({ source: noteSource, reason: 'Empty note' });
+      return;
+    }
+
+    const createdAt = parseDate(enexNote.created) || new Date();
+    const updatedAt = parseDate(enexNote.updated) || createdAt;
+    result.notes.push(singleVersionNote(noteSource, content, createdAt, updatedAt, normalizeTags(enexNote.tag)));
+  });
+
+  return result;
+}
+
+class ZipTooLargeError extends Error {}
+
+// Inflates an entry as text, counting against what the whole archive may inflate to
+function readZipEntry(entry: JSZip.JSZipObject, budget: { remaining: number }): Promise<string> {
+  return new Promise((resolve, reject) => {
+    const chunks: Buffer[] = [];
+    const stream = entry.nodeStream('nodebuffer');
+    stream.on('data', (chunk: Buffer) => {
+      budget.remaining -= chunk.length;
+      if (budget.remaining < 0) {
+        stream.pause();
+        reject(new ZipTooLargeError());
+        return;
+      }
+      chunks.push(chunk);
+    });
+    stream.on('end', () => resolve(Buffer.concat(chunks).toString('utf8')));
+    stream.on('error', reject);
+  });
+}
+
+async function parseZip(source: string, data: Buffer): Promise<ImportParseResult> {
+  try {
+    return await parseZipEntries(source, data);
+  } catch (error) {
+    if (!(error instanceof ZipTooLargeError)) throw error;
+    const limitMb = IMPORT_MAX_UNCOMPRESSED_BYTES / (1024 * 1024);
+    return { notes: [], skipped: [{ source, reason: `Archive is larger than ${limitMb} MB uncompressed` }] };
+  }
+}
+
+async function parseZipEntries(source: string, data: Buffer): Promise<ImportParseResult> {
+  let zip: JSZip;
+  try {
+    zip = await JSZip.loadAsync(data);
+  } catch {
+    return { notes: [], skipped: [{ source, reason: 'Invalid ZIP archive' }] };
+  }
+
+  const result = emptyResult();
+  const entries = Object.values(zip.files)
+    .filter(entry => !entry.dir && !entry.name.startsWith('__MACOSX/') && !path.basename(entry.name).startsWith('.'))
+    .sort((a, b) => a.name.localeCompare(b.name));
+
+  if (entries.length > IMPORT_MAX_ZIP_ENTRIES) {
+    return { notes: [], skipped: [{ source, reason: `Archive has more than ${IMPORT_MAX_ZIP_ENTRIES} files` }] };
+  }
+  const budget = { remaining: IMPORT_MAX_UNCOMPRESSED_BYTES };
+
+  // Collect history/<note>/v<N>.md from our Markdown exports so they can be attached to their note
+  const history = new Map<string, MarkdownFile[]>();
+  const historyEntries = new Set<string>();
+  for (const entry of entries) {
+    const match = entry.name.match(/(?:^|\/)history\/([^/]+)\/v\d+\.md$/);
+    if (!match) continue;
+
+    historyEntries.add(entry.name);
+    const text = await readZipEntry(entry, budget);
+    try {
+      const versions = history.get(match[1]) || [];
+      versions.push(splitFrontMatter(text));
+      history.set(match[1], versions);
+    } catch {
+      result.skipped.push({ source: `${source}/${entry.name}`, reason: 'Invalid YAML front-matter' });
+    }
+  }
+
+  for (const entry of entries) {
+    const entrySource = `${source}/${entry.name}`;
+    const extension = path.extname(entry.name).toLowerCase();
+
+    if (historyEntries.has(entry.name)) {
+      continue;
+    }
+
+    if (MARKDOWN_EXTENSIONS.includes(extension)) {
+      const versions = history.get(path.basename(entry.name, extension));
+      merge(result, parseMarkdown(entrySource, await readZipEntry(entry, budget), entry.date, versions));
+    } else if (extension === '.json') {
+      merge(result, parseJson(entrySource, await readZipEntry(entry, budget)));
+    } else if (extension === '.enex') {
+      merge(result, parseEnex(entrySource, await readZipEntry(entry, budget)));
+    } else {
+      result.skipped.push({ source: entrySource, reason: 'Unsupported file type' });
+    }
+  }
+
+  return result;
+}
+
+/**
+ * Parses an uploaded file into notes ready to import. Supports ZIPs of Markdown files
+ * with YAML front-matter, our own JSON/Markdown exports, Google Keep Takeout and Evernote ENEX.
+ * Anything that can't be imported is listed in `skipped` rather than failing the whole upload.
+ */
+export async function parseImportFile(filename: string, data: Buffer): Promise<ImportParseResult> {
+  const extension = path.extname(filename).toLowerCase();
+
+  if (extension === '.zip') {
+    return parseZip(filename, data);
+  }
+  if (extension === '.enex') {
+    return parseEnex(filename, data.toString('utf8'));
+  }
+  if (extension === '.json') {
+    return parseJson(filename, data.toString('utf8'));
+  }
+  if (MARKDOWN_EXTENSIONS.includes(extension)) {
+    return parseMarkdown(filename, data.toString('utf8'), new Date());
+  }
+  return { notes: [], skipped: [{ source: filename, reason: 'Unsupported file type' }] };
+}
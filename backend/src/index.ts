@@ -2,17 +2,78 @@ import express, { Request, Response } from 'express';
 import cors from 'cors';
 import dotenv from 'dotenv';
 import path from 'path';
+import multer from 'multer';
 import { testConnection } from './db';
-import { createNote, getNotes, getNoteById, updateNote, deleteNote, getAllTags, createTag, updateTag, deleteTag, getNoteVersions, getNoteVersion, addTagToNote, removeTagFromNote } from './notes';
-import { CreateNoteRequest, UpdateNoteRequest, NoteFilters } from './types';
+import { writeExportArchive } from './export';
+import { parseImportFile, IMPORT_MAX_FILE_BYTES, IMPORT_MAX_FILES } from './import';
+import { suggestTags } from './suggestions';
+import { streamEvents } from './events';
+import { getSavedViews, createSavedView, updateSavedView, deleteSavedView, sanitizeViewFilters } from './views';
+import { getDraft, saveDraft, deleteDraft, DraftKey } from './drafts';
+import { sendDueReminders, getVapidPublicKey, savePushSubscription, deletePushSubscription } from './reminders';
+import { registerUser, loginUser, logoutSession, getBearerToken, requireAuth, purgeExpiredSessions } from './auth';
+import { createNote, getNotes, parseNoteCursor, getNoteById, updateNote, deleteNote, getTrash, restoreNote, purgeNote, emptyTrash, purgeExpiredNotes, getAllTags, createTag, updateTag, deleteTag, getNoteVersions, getNoteVersion, getNoteVersionDiff, restoreNoteVersion, addTagToNote, removeTagFromNote, importNotes, normalizeTagName, getTag, mergeTags, bulkUpdateNotes, setNotePinned, setNoteArchived, setNoteReminder, getReminders, setNoteChecklistItem } from './notes';
+import { addAttachments, getAttachments, openAttachment, deleteAttachment, isAllowedAttachmentType, normalizeContentType, ATTACHMENT_MAX_BYTES, ATTACHMENT_MAX_FILES } from './attachments';
+import { createVoiceNote, queueTranscription, transcribePending, requeueInterruptedTranscriptions } from './transcription';
+import { Note, CreateNoteRequest, UpdateNoteRequest, BulkNoteRequest, NoteFilters, ArchivedFilter, ExportOptions, ImportParseResult, SavedViewRequest, SaveDraftRequest, PushSubscriptionRequest, SetChecklistItemRequest, TranscribeNoteRequest } from './types';
 
 dotenv.config();
 
 const app = express();
 const PORT = process.env.PORT || 3001;
+const TRASH_RETENTION_DAYS = parseInt(process.env.TRASH_RETENTION_DAYS || '30');
+const TRASH_PURGE_INTERVAL_MS = 60 * 60 * 1000;
+const REMINDER_CHECK_INTERVAL_MS = 30 * 1000;
+const TRANSCRIPTION_CHECK_INTERVAL_MS = 60 * 1000;
+const NOTES_PAGE_SIZE = 100;
+// Note ids are Postgres integers; anything larger can't match and would fail the query
+const MAX_NOTE_ID = 2147483647;
+const MAX_NOTES_PAGE_SIZE = 500;
+const PG_UNIQUE_VIOLATION = '23505';
+const MAX_BULK_NOTES = 1000;
+const BULK_NOTE_ACTIONS = ['add-tags', 'remove-tags', 'delete'];
+
+const importUpload = multer({
+  storage: multer.memoryStorage(),
+  limits: { fileSize: IMPORT_MAX_FILE_BYTES, files: IMPORT_MAX_FILES },
+}).array('files');
+
+const attachmentUpload = multer({
+  storage: multer.memoryStorage(),
+  limits: { fileSize: ATTACHMENT_MAX_BYTES, files: ATTACHMENT_MAX_FILES },
+  // Browsers send file names as UTF-8
+  defParamCharset: 'utf8',
+}).array('files');
+
+// Voice notes are a single recording in the "audio" field
+const voiceUpload = multer({
+  storage: multer.memoryStorage(),
+  limits: { fileSize: ATTACHMENT_MAX_BYTES, files: 1 },
+  defParamCharset: 'utf8',
+}).single('audio');
+
+// Note ETags are the note's current version and revision, so checklist ticks change them too
+function noteETag(note: Note): string {
+  return `"v${note.current_version || 1}.${note.revision}"`;
+}
+
+// Comma-separated list parameters; null when one is repeated (?tags=a&tags=b arrives as an array)
+function parseListParam(value: unknown): string[] | undefined | null {
+  if (value === undefined || value === '') return undefined;
+  if (typeof value !== 'string') return null;
+  return value.split(',');
+}
+
+// Draft URLs use a note id, or "new" for the new-note form; undefined means neither
+function parseDraftKey(key: string): DraftKey | undefined {
+  if (key === 'new') return null;
+  const id = parseInt(key);
+  return Number.isInteger(id) && id > 0 ? id : undefined;
+}
 
 // Middleware
-app.use(cors());
+// CORS_ORIGIN restricts cross-origin access to a comma-separated list of origins
+app.use(cors(process.env.CORS_ORIGIN ? { origin: process.env.CORS_ORIGIN.split(',') } : undefined));
 app.use(express.json());
 
 // Serve frontend static files in production
@@ -24,6 +85,85 @@ app.get('/api/health', (req: Request, res: Response) => {
   res.json({ status: 'ok', timestamp: new Date().toISOString() });
 });
 
+// Auth endpoints
+app.post('/api/auth/register', async (req: Request, res: Response) => {
+  try {
+    const { username, password } = req.body;
+
+    if (process.env.ALLOW_REGISTRATION === 'false') {
+      res.status(403).json({ error: 'Registration is disabled' });
+      return;
+    }
+
+    if (typeof username !== 'string' || !/^[a-zA-Z0-9_.-]{3,50}$/.test(username)) {
+      res.status(400).json({ error: 'Username must be 3-50 letters, numbers, dots, dashes or underscores' });
+      return;
+    }
+
+    if (typeof password !== 'string' || password.length < 8) {
+      res.status(400).json({ error: 'Password must be at least 8 characters' });
+      return;
+    }
+
+    const auth = await registerUser(username, password);
+
+    if (!auth) {
+      res.status(409).json({ error: 'Username is already taken' });
+      return;
+    }
+
+    res.status(201).json(auth);
+  } catch (error) {
+    console.error('Error registering user:', error);
+    res.status(500).json({ error: 'Failed to register' });
+  }
+});
+
+app.post('/api/auth/login', async (req: Request, res: Response) => {
+  try {
+    const { username, password } = req.body;
+
+    if (typeof username !== 'string' || typeof password !== 'string' || !username || !password) {
+      res.status(400).json({ error: 'username and password are required' });
+      return;
+    }
+
+    const auth = await loginUser(username, password);
+
+    if (!auth) {
+      res.status(401).json({ error: 'Invalid username or password' });
+      return;
+    }
+
+    res.json(auth);
+  } catch (error) {
+    console.error('Error logging in:', error);
+    res.status(500).json({ error: 'Failed to log in' });
+  }
+});
+
+// Everything below this point requires a valid session token
+app.use('/api', requireAuth);
+
+app.post('/api/auth/logout', async (req: Request, res: Response) => {
+  try {
+    await logoutSession(getBearerToken(req)!);
+    res.status(204).send();
+  } catch (error) {
+    console.error('Error logging out:', error);
+    res.status(500).json({ error: 'Failed to log out' });
+  }
+});
+
+app.get('/api/auth/me', (req: Request, res: Response) => {
+  res.json(req.user);
+});
+
+// Server-Sent Events stream of changes to the user's notes and tags, for keeping other clients in sync
+app.get('/api/events', (req: Request, res: Response) => {
+  streamEvents(req.user!.id, req, res);
+});
+
 // Notes endpoints
 app.post('/api/notes', async (req: Request, res: Response) => {
   try {
@@ -34,7 +174,7 @@ app.post('/api/notes', async (req: Request, res: Response) => {
       return;
     }
 
-    const note = await createNote(data);
+    const note = await createNote(req.user!.id, data);
     res.status(201).json(note);
   } catch (error) {
     console.error('Error creating note:', error);
@@ -44,16 +184,104 @@ app.post('/api/notes', async (req: Request, res: Response) => {
 
 app.get('/api/notes', async (req: Request, res: Response) => {
   try {
+    const sortBy = (req.query.sortBy as string) || 'created_at';
+    const sortOrder = (req.query.sortOrder as string) || 'desc';
+    const limit = req.query.limit ? parseInt(req.query.limit as string) : NOTES_PAGE_SIZE;
+
+    if (sortBy !== 'created_at' && sortBy !== 'updated_at') {
+      res.status(400).json({ error: 'sortBy must be "created_at" or "updated_at"' });
+      return;
+    }
+
+    if (sortOrder !== 'asc' && sortOrder !== 'desc') {
+      res.status(400).json({ error: 'sortOrder must be "asc" or "desc"' });
+      return;
+    }
+
+    if (isNaN(limit) || limit < 1 || limit > MAX_NOTES_PAGE_SIZE) {
+      res.status(400).json({ error: `limit must be between 1 and ${MAX_NOTES_PAGE_SIZE}` });
+      return;
+    }
+
+    const tagMode = (req.query.tagMode as string) || 'or';
+    if (tagMode !== 'and' && tagMode !== 'or') {
+      res.status(400).json({ error: 'tagMode must be "and" or "or"' });
+      return;
+    }
+
+    const archived = (req.query.archived as string) || 'exclude';
+    if (archived !== 'exclude' && archived !== 'only' && archived !== 'include') {
+      res.status(400).json({ error: 'archived must be "exclude", "only" or "include"' });
+      return;
+    }
+
+    const dates: Record<string, Date | undefined> = {};
+    for (const name of ['createdFrom', 'createdTo', 'updatedFrom', 'updatedTo']) {
+      if (!req.query[name]) continue;
+
+      const date = new Date(req.query[name] as string);
+      if (isNaN(date.getTime())) {
+        res.status(400).json({ error: `${name} must be a valid date` });
+        return;
+      }
+      dates[name] = date;
+    }
+
+    const moreThanVersions = req.query.moreThanVersions !== undefined
+      ? parseInt(req.query.moreThanVersions as string)
+      : undefined;
+    if (moreThanVersions !== undefined && (isNaN(moreThanVersions) || moreThanVersions < 0)) {
+      res.status(400).json({ error: 'moreThanVersions must be a non-negative number' });
+      return;
+    }
+
+    const cursor = req.query.cursor ? parseNoteCursor(req.query.cursor as string) : undefined;
+    if (cursor === null) {
+      res.status(400).json({ error: 'Invalid cursor' });
+      return;
+    }
+
+    // ?q=a&q=b arrives as an array
+    if (req.query.q !== undefined && typeof req.query.q !== 'string') {
+      res.status(400).json({ error: 'q must be a single search query' });
+      return;
+    }
+
+    // Search pages are ordered by rank first, so a cursor only continues the kind of listing it came from
+    const searching = typeof req.query.q === 'string' && req.query.q.trim().length > 0;
+    if (cursor && (cursor.rank !== undefined) !== searching) {
+      res.status(400).json({ error: "Cursor doesn't match sort" });
+      return;
+    }
+
+    const tags = parseListParam(req.query.tags);
+    const excludeTags = parseListParam(req.query.excludeTags);
+    if (tags === null || excludeTags === null) {
+      res.status(400).json({ error: 'tags and excludeTags must each be a single comma-separated list' });
+      return;
+    }
+
     const filters: NoteFilters = {
-      tags: req.query.tags ? (req.query.tags as string).split(',') : undefined,
-      sortBy: (req.query.sortBy as 'created_at' | 'updated_at') || 'created_at',
-      sortOrder: (req.query.sortOrder as 'asc' | 'desc') || 'desc',
-      limit: req.query.limit ? parseInt(req.query.limit as string) : undefined,
-      offset: req.query.offset ? parseInt(req.query.offset as string) : undefined,
+      archived: archived as ArchivedFilter,
+      q: req.query.q || undefined,
+      includeHistory: req.query.includeHistory === 'true',
+      tags,
+      tagMode,
+      excludeTags,
+      untagged: req.query.untagged === 'true',
+      createdFrom: dates.createdFrom,
+      createdTo: dates.createdTo,
+      updatedFrom: dates.updatedFrom,
+      updatedTo: dates.updatedTo,
+      moreThanVersions,
+      sortBy,
+      sortOrder,
+      limit,
+      cursor,
     };
 
-    const notes = await getNotes(filters);
-    res.json(notes);
+    const page = await getNotes(req.user!.id, filters);
+    res.json(page);
   } catch (error) {
     console.error('Error fetching notes:', error);
     res.status(500).json({ error: 'Failed to fetch notes' });
@@ -63,13 +291,15 @@ app.get('/api/notes', async (req: Request, res: Response) => {
 app.get('/api/notes/:id', async (req: Request, res: Response) => {
   try {
     const id = parseInt(req.params.id);
-    const note = await getNoteById(id);
+    const note = await getNoteById(req.user!.id, id);
 
     if (!note) {
       res.status(404).json({ error: 'Note not found' });
       return;
     }
 
+    res.setHeader('ETag', noteETag(note));
+
     res.json(note);
   } catch (error) {
     console.error('Error fetching note:', error);
@@ -77,20 +307,55 @@ app.get('/api/notes/:id', async (req: Request, res: Response) => {
   }
 });
 
+// Clients send the version they edited as baseVersion (or If-Match with the note's ETag) to avoid
+// overwriting someone else's changes; a stale version gets a 409 with the latest note.
+// baseRevision (the ETag's second number) also catches checklist ticks made since.
 app.put('/api/notes/:id', async (req: Request, res: Response) => {
   try {
     const id = parseInt(req.params.id);
     const data: UpdateNoteRequest = req.body;
 
-    const note = await updateNote(id, data);
+    const ifMatch = req.header('If-Match');
+    if (data.baseVersion === undefined && data.baseRevision === undefined && ifMatch) {
+      const match = /^(?:W\/)?"v(\d+)(?:\.(\d+))?"$/.exec(ifMatch.trim());
+      if (!match) {
+        res.status(400).json({ error: 'If-Match must be a note ETag like "v3.5"' });
+        return;
+      }
+      data.baseVersion = parseInt(match[1]);
+      data.baseRevision = match[2] !== undefined ? parseInt(match[2]) : undefined;
+    }
 
-    if (!note) {
+    if (data.baseVersion !== undefined && (!Number.isInteger(data.baseVersion) || data.baseVersion < 1)) {
+      res.status(400).json({ error: 'baseVersion must be a positive integer' });
+      return;
+    }
+
+    if (data.baseRevision !== undefined && (!Number.isInteger(data.baseRevision) || data.baseRevision < 1)) {
+      res.status(400).json({ error: 'baseRevision must be a positive integer' });
+      return;
+    }
+
+    const result = await updateNote(req.user!.id, id, data);
+
+    if (!result) {
       res.status(404).json({ error: 'Note not found' });
       return;
     }
 
-    res.json(note);
-  } catch (error) {
+    if ('conflict' in result) {
+      res.setHeader('ETag', noteETag(result.conflict.note));
+      res.status(409).json(result.conflict);
+      return;
+    }
+
+    res.setHeader('ETag', noteETag(result.note));
+    res.json(result.note);
+  } catch (error: any) {
+    if (error.code === PG_UNIQUE_VIOLATION) {
+      res.status(409).json({ error: 'Note was changed by another update; reload it and try again' });
+      return;
+    }
     console.error('Error updating note:', error);
     res.status(500).json({ error: 'Failed to update note' });
   }
@@ -99,7 +364,7 @@ app.put('/api/notes/:id', async (req: Request, res: Response) => {
 app.delete('/api/notes/:id', async (req: Request, res: Response) => {
   try {
     const id = parseInt(req.params.id);
-    const deleted = await deleteNote(id);
+    const deleted = await deleteNote(req.user!.id, id);
 
     if (!deleted) {
       res.status(404).json({ error: 'Note not found' });
@@ -113,167 +378,1048 @@ app.delete('/api/notes/:id', async (req: Request, res: Response) => {
   }
 });
 
-app.get('/api/tags', async (req: Request, res: Response) => {
+app.put('/api/notes/:id/pinned', async (req: Request, res: Response) => {
   try {
-    const tags = await getAllTags();
-    res.json(tags);
+    const id = parseInt(req.params.id);
+    const { pinned } = req.body;
+
+    if (typeof pinned !== 'boolean') {
+      res.status(400).json({ error: 'pinned must be true or false' });
+      return;
+    }
+
+    const note = await setNotePinned(req.user!.id, id, pinned);
+
+    if (!note) {
+      res.status(404).json({ error: 'Note not found' });
+      return;
+    }
+
+    res.json(note);
   } catch (error) {
-    console.error('Error fetching tags:', error);
-    res.status(500).json({ error: 'Failed to fetch tags' });
+    console.error('Error pinning note:', error);
+    res.status(500).json({ error: 'Failed to pin note' });
   }
 });
 
-app.post('/api/tags', async (req: Request, res: Response) => {
+app.put('/api/notes/:id/archived', async (req: Request, res: Response) => {
   try {
-    const { name, source } = req.body;
+    const id = parseInt(req.params.id);
+    const { archived } = req.body;
 
-    if (!name || name.trim().length === 0) {
-      res.status(400).json({ error: 'Tag name is required' });
+    if (typeof archived !== 'boolean') {
+      res.status(400).json({ error: 'archived must be true or false' });
       return;
     }
 
-    if (source !== 'Self') {
-      res.status(400).json({ error: 'source must be "Self"' });
+    const note = await setNoteArchived(req.user!.id, id, archived);
+
+    if (!note) {
+      res.status(404).json({ error: 'Note not found' });
       return;
     }
 
-    const tag = await createTag(name, source);
-    res.status(201).json(tag);
+    res.json(note);
   } catch (error) {
-    console.error('Error creating tag:', error);
-    res.status(500).json({ error: 'Failed to create tag' });
+    console.error('Error archiving note:', error);
+    res.status(500).json({ error: 'Failed to archive note' });
   }
 });
 
-app.put('/api/tags/:id', async (req: Request, res: Response) => {
+// remindAt is an ISO timestamp, or null to clear the reminder
+app.put('/api/notes/:id/reminder', async (req: Request, res: Response) => {
   try {
     const id = parseInt(req.params.id);
-    const { name } = req.body;
+    const { remindAt } = req.body;
 
-    if (!name || name.trim().length === 0) {
-      res.status(400).json({ error: 'Tag name is required' });
+    const date = typeof remindAt === 'string' ? new Date(remindAt) : null;
+    if (remindAt !== null && (!date || isNaN(date.getTime()))) {
+      res.status(400).json({ error: 'remindAt must be a valid date or null' });
       return;
     }
 
-    const tag = await updateTag(id, name);
+    const note = await setNoteReminder(req.user!.id, id, date);
 
-    if (!tag) {
-      res.status(404).json({ error: 'Tag not found' });
+    if (!note) {
+      res.status(404).json({ error: 'Note not found' });
       return;
     }
 
-    res.json(tag);
+    res.json(note);
   } catch (error) {
-    console.error('Error updating tag:', error);
-    res.status(500).json({ error: 'Failed to update tag' });
+    console.error('Error setting reminder:', error);
+    res.status(500).json({ error: 'Failed to set reminder' });
   }
 });
 
-app.delete('/api/tags/:id', async (req: Request, res: Response) => {
+// Ticks or unticks the item on one line of the content (numbered from 0) without creating a new version
+app.patch('/api/notes/:id/checklist/:line', async (req: Request, res: Response) => {
   try {
     const id = parseInt(req.params.id);
-    const deleted = await deleteTag(id);
+    const line = parseInt(req.params.line);
+    const data: SetChecklistItemRequest = req.body;
 
-    if (!deleted) {
-      res.status(404).json({ error: 'Tag not found' });
+    if (!Number.isInteger(line) || line < 0) {
+      res.status(400).json({ error: 'Checklist item line must be a non-negative integer' });
       return;
     }
 
-    res.status(204).send();
+    if (typeof data.checked !== 'boolean') {
+      res.status(400).json({ error: 'checked must be true or false' });
+      return;
+    }
+
+    if (data.baseVersion !== undefined && (!Number.isInteger(data.baseVersion) || data.baseVersion < 1)) {
+      res.status(400).json({ error: 'baseVersion must be a positive integer' });
+      return;
+    }
+
+    if (data.baseRevision !== undefined && (!Number.isInteger(data.baseRevision) || data.baseRevision < 1)) {
+      res.status(400).json({ error: 'baseRevision must be a positive integer' });
+      return;
+    }
+
+    const result = await setNoteChecklistItem(req.user!.id, id, line, data);
+
+    if (!result) {
+      res.status(404).json({ error: 'Note or checklist item not found' });
+      return;
+    }
+
+    if ('conflict' in result) {
+      res.setHeader('ETag', noteETag(result.conflict.note));
+      res.status(409).json(result.conflict);
+      return;
+    }
+
+    res.setHeader('ETag', noteETag(result.note));
+    res.json(result.note);
   } catch (error) {
-    console.error('Error deleting tag:', error);
-    res.status(500).json({ error: 'Failed to delete tag' });
+    console.error('Error updating checklist item:', error);
+    res.status(500).json({ error: 'Failed to update checklist item' });
   }
 });
 
-// Version history endpoints
-app.get('/api/notes/:id/versions', async (req: Request, res: Response) => {
+// Applies one action (add-tags, remove-tags or delete) to many notes in a single transaction
+app.post('/api/notes/bulk', async (req: Request, res: Response) => {
   try {
-    const noteId = parseInt(req.params.id);
-    const versions = await getNoteVersions(noteId);
-    res.json(versions);
+    const { action, noteIds, tags }: BulkNoteRequest = req.body;
+
+    if (!BULK_NOTE_ACTIONS.includes(action)) {
+      res.status(400).json({ error: `action must be one of: ${BULK_NOTE_ACTIONS.join(', ')}` });
+      return;
+    }
+
+    if (!Array.isArray(noteIds) || noteIds.length === 0 || !noteIds.every(id => Number.isInteger(id) && id > 0)) {
+      res.status(400).json({ error: 'noteIds must be a non-empty array of note ids' });
+      return;
+    }
+
+    if (noteIds.length > MAX_BULK_NOTES) {
+      res.status(400).json({ error: `At most ${MAX_BULK_NOTES} notes can be updated at once` });
+      return;
+    }
+
+    if (action !== 'delete') {
+      if (!Array.isArray(tags) || tags.length === 0 || !tags.every(tag => typeof tag === 'string' && normalizeTagName(tag))) {
+        res.status(400).json({ error: 'tags must be a non-empty array of tag names' });
+        return;
+      }
+    }
+
+    const result = await bulkUpdateNotes(req.user!.id, { action, noteIds, tags });
+    res.json(result);
   } catch (error) {
-    console.error('Error fetching note versions:', error);
-    res.status(500).json({ error: 'Failed to fetch note versions' });
+    console.error('Error updating notes in bulk:', error);
+    res.status(500).json({ error: 'Failed to update notes' });
   }
 });
 
-app.get('/api/notes/:id/versions/:version', async (req: Request, res: Response) => {
+// Trash endpoints
+app.get('/api/trash', async (req: Request, res: Response) => {
   try {
-    const noteId = parseInt(req.params.id);
-    const version = parseInt(req.params.version);
-    const noteVersion = await getNoteVersion(noteId, version);
+    const notes = await getTrash(req.user!.id);
+    res.json(notes);
+  } catch (error) {
+    console.error('Error fetching trash:', error);
+    res.status(500).json({ error: 'Failed to fetch trash' });
+  }
+});
 
-    if (!noteVersion) {
-      res.status(404).json({ error: 'Version not found' });
+app.post('/api/trash/:id/restore', async (req: Request, res: Response) => {
+  try {
+    const id = parseInt(req.params.id);
+    const note = await restoreNote(req.user!.id, id);
+
+    if (!note) {
+      res.status(404).json({ error: 'Note not found in trash' });
       return;
     }
 
-    res.json(noteVersion);
+    res.json(note);
   } catch (error) {
-    console.error('Error fetching note version:', error);
-    res.status(500).json({ error: 'Failed to fetch note version' });
+    console.error('Error restoring note:', error);
+    res.status(500).json({ error: 'Failed to restore note' });
   }
 });
 
-// Tag management endpoints
-app.post('/api/notes/:id/tags', async (req: Request, res: Response) => {
+app.delete('/api/trash/:id', async (req: Request, res: Response) => {
   try {
-    const noteId = parseInt(req.params.id);
-    const { tagName, source } = req.body;
-
-    if (!tagName || !source) {
-      res.status(400).json({ error: 'tagName and source are required' });
-      return;
-    }
+    const id = parseInt(req.params.id);
+    const purged = await purgeNote(req.user!.id, id);
 
-    if (source !== 'Self') {
-      res.status(400).json({ error: 'source must be "Self"' });
+    if (!purged) {
+      res.status(404).json({ error: 'Note not found in trash' });
       return;
     }
 
-    const note = await addTagToNote(noteId, tagName, source);
+    res.status(204).send();
+  } catch (error) {
+    console.error('Error purging note:', error);
+    res.status(500).json({ error: 'Failed to permanently delete note' });
+  }
+});
 
-    if (!note) {
-      res.status(404).json({ error: 'Note not found' });
-      return;
-    }
+app.delete('/api/trash', async (req: Request, res: Response) => {
+  try {
+    const count = await emptyTrash(req.user!.id);
+    res.json({ purged: count });
+  } catch (error) {
+    console.error('Error emptying trash:', error);
+    res.status(500).json({ error: 'Failed to empty trash' });
+  }
+});
 
-    res.json(note);
+app.get('/api/tags', async (req: Request, res: Response) => {
+  try {
+    const tags = await getAllTags(req.user!.id);
+    res.json(tags);
   } catch (error) {
-    console.error('Error adding tag to note:', error);
-    res.status(500).json({ error: 'Failed to add tag to note' });
+    console.error('Error fetching tags:', error);
+    res.status(500).json({ error: 'Failed to fetch tags' });
   }
 });
 
-app.delete('/api/notes/:id/tags/:tagId', async (req: Request, res: Response) => {
+app.post('/api/tags', async (req: Request, res: Response) => {
   try {
-    const noteId = parseInt(req.params.id);
-    const tagId = parseInt(req.params.tagId);
+    const { name, source } = req.body;
 
-    const note = await removeTagFromNote(noteId, tagId);
+    if (!name || normalizeTagName(name).length === 0) {
+      res.status(400).json({ error: 'Tag name is required' });
+      return;
+    }
 
-    if (!note) {
-      res.status(404).json({ error: 'Note not found' });
+    if (source !== 'Self') {
+      res.status(400).json({ error: 'source must be "Self"' });
       return;
     }
 
-    res.json(note);
+    const tag = await createTag(req.user!.id, name, source);
+    res.status(201).json(tag);
   } catch (error) {
-    console.error('Error removing tag from note:', error);
-    res.status(500).json({ error: 'Failed to remove tag from note' });
+    console.error('Error creating tag:', error);
+    res.status(500).json({ error: 'Failed to create tag' });
   }
 });
 
-// Catch-all route to serve index.html for client-side routing
-app.get('*', (req: Request, res: Response) => {
-  res.sendFile(path.join(frontendDistPath, 'index.html'));
-});
+app.put('/api/tags/:id', async (req: Request, res: Response) => {
+  try {
+    const id = parseInt(req.params.id);
+    const { name } = req.body;
+
+    if (!name || normalizeTagName(name).length === 0) {
+      res.status(400).json({ error: 'Tag name is required' });
+      return;
+    }
+
+    const tag = await updateTag(req.user!.id, id, name);
+
+    if (!tag) {
+      res.status(404).json({ error: 'Tag not found' });
+      return;
+    }
+
+    res.json(tag);
+  } catch (error: any) {
+    if (error.code === PG_UNIQUE_VIOLATION) {
+      res.status(409).json({ error: 'A tag with this name already exists; merge the tags instead' });
+      return;
+    }
+    console.error('Error updating tag:', error);
+    res.status(500).json({ error: 'Failed to update tag' });
+  }
+});
+
+app.post('/api/tags/:id/merge', async (req: Request, res: Response) => {
+  try {
+    const sourceId = parseInt(req.params.id);
+    const targetId = parseInt(req.body.targetId);
+
+    if (isNaN(targetId)) {
+      res.status(400).json({ error: 'targetId is required' });
+      return;
+    }
+
+    if (sourceId === targetId) {
+      res.status(400).json({ error: 'Cannot merge a tag into itself' });
+      return;
+    }
+
+    const [source, target] = await Promise.all([
+      getTag(req.user!.id, sourceId),
+      getTag(req.user!.id, targetId),
+    ]);
+
+    if (!source || !target) {
+      res.status(404).json({ error: 'Tag not found' });
+      return;
+    }
+
+    if (target.name.startsWith(`${source.name}/`)) {
+      res.status(400).json({ error: 'Cannot merge a tag into one nested under it' });
+      return;
+    }
+
+    const tag = await mergeTags(req.user!.id, sourceId, targetId);
+
+    if (!tag) {
+      res.status(404).json({ error: 'Tag not found' });
+      return;
+    }
+
+    res.json(tag);
+  } catch (error) {
+    console.error('Error merging tags:', error);
+    res.status(500).json({ error: 'Failed to merge tags' });
+  }
+});
+
+app.delete('/api/tags/:id', async (req: Request, res: Response) => {
+  try {
+    const id = parseInt(req.params.id);
+    const deleted = await deleteTag(req.user!.id, id);
+
+    if (!deleted) {
+      res.status(404).json({ error: 'Tag not found' });
+      return;
+    }
+
+    res.status(204).send();
+  } catch (error) {
+    console.error('Error deleting tag:', error);
+    res.status(500).json({ error: 'Failed to delete tag' });
+  }
+});
+
+// Version history endpoints
+app.get('/api/notes/:id/versions', async (req: Request, res: Response) => {
+  try {
+    const noteId = parseInt(req.params.id);
+    const versions = await getNoteVersions(req.user!.id, noteId);
+    res.json(versions);
+  } catch (error) {
+    console.error('Error fetching note versions:', error);
+    res.status(500).json({ error: 'Failed to fetch note versions' });
+  }
+});
+
+// Must be registered before /versions/:version so "diff" isn't parsed as a version
+app.get('/api/notes/:id/versions/diff', async (req: Request, res: Response) => {
+  try {
+    const noteId = parseInt(req.params.id);
+    const from = parseInt(req.query.from as string);
+    const to = parseInt(req.query.to as string);
+
+    if (isNaN(from) || isNaN(to)) {
+      res.status(400).json({ error: 'from and to versions are required' });
+      return;
+    }
+
+    const diff = await getNoteVersionDiff(req.user!.id, noteId, from, to);
+
+    if (!diff) {
+      res.status(404).json({ error: 'Version not found' });
+      return;
+    }
+
+    res.json(diff);
+  } catch (error) {
+    console.error('Error diffing note versions:', error);
+    res.status(500).json({ error: 'Failed to diff note versions' });
+  }
+});
+
+app.get('/api/notes/:id/versions/:version', async (req: Request, res: Response) => {
+  try {
+    const noteId = parseInt(req.params.id);
+    const version = parseInt(req.params.version);
+    const noteVersion = await getNoteVersion(req.user!.id, noteId, version);
+
+    if (!noteVersion) {
+      res.status(404).json({ error: 'Version not found' });
+      return;
+    }
+
+    res.json(noteVersion);
+  } catch (error) {
+    console.error('Error fetching note version:', error);
+    res.status(500).json({ error: 'Failed to fetch note version' });
+  }
+});
+
+app.post('/api/notes/:id/versions/:version/restore', async (req: Request, res: Response) => {
+  try {
+    const noteId = parseInt(req.params.id);
+    const version = parseInt(req.params.version);
+    const note = await restoreNoteVersion(req.user!.id, noteId, version);
+
+    if (!note) {
+      res.status(404).json({ error: 'Version not found' });
+      return;
+    }
+
+    res.json(note);
+  } catch (error) {
+    console.error('Error restoring note version:', error);
+    res.status(500).json({ error: 'Failed to restore note version' });
+  }
+});
+
+// Tag management endpoints
+app.post('/api/notes/:id/tags', async (req: Request, res: Response) => {
+  try {
+    const noteId = parseInt(req.params.id);
+    const { tagName, source } = req.body;
+
+    if (!tagName || normalizeTagName(tagName).length === 0 || !source) {
+      res.status(400).json({ error: 'tagName and source are required' });
+      return;
+    }
+
+    // 'AI' marks a tag accepted from a suggestion
+    if (source !== 'Self' && source !== 'AI') {
+      res.status(400).json({ error: 'source must be "Self" or "AI"' });
+      return;
+    }
+
+    const note = await addTagToNote(req.user!.id, noteId, tagName, source);
+
+    if (!note) {
+      res.status(404).json({ error: 'Note not found' });
+      return;
+    }
+
+    res.json(note);
+  } catch (error) {
+    console.error('Error adding tag to note:', error);
+    res.status(500).json({ error: 'Failed to add tag to note' });
+  }
+});
+
+app.delete('/api/notes/:id/tags/:tagId', async (req: Request, res: Response) => {
+  try {
+    const noteId = parseInt(req.params.id);
+    const tagId = parseInt(req.params.tagId);
+
+    const note = await removeTagFromNote(req.user!.id, noteId, tagId);
+
+    if (!note) {
+      res.status(404).json({ error: 'Note not found' });
+      return;
+    }
+
+    res.json(note);
+  } catch (error) {
+    console.error('Error removing tag from note:', error);
+    res.status(500).json({ error: 'Failed to remove tag from note' });
+  }
+});
+
+// Tag suggestions for note content; noteId leaves out tags the note already has
+app.post('/api/tag-suggestions', async (req: Request, res: Response) => {
+  try {
+    const { content, noteId } = req.body;
+
+    if (typeof content !== 'string') {
+      res.status(400).json({ error: 'content is required' });
+      return;
+    }
+
+    if (noteId !== undefined && !Number.isInteger(noteId)) {
+      res.status(400).json({ error: 'noteId must be a note id' });
+      return;
+    }
+
+    const suggestions = await suggestTags(req.user!.id, content, noteId);
+    res.json(suggestions);
+  } catch (error) {
+    console.error('Error suggesting tags:', error);
+    res.status(500).json({ error: 'Failed to suggest tags' });
+  }
+});
+
+// Saved views endpoints
+app.get('/api/views', async (req: Request, res: Response) => {
+  try {
+    const views = await getSavedViews(req.user!.id);
+    res.json(views);
+  } catch (error) {
+    console.error('Error fetching saved views:', error);
+    res.status(500).json({ error: 'Failed to fetch saved views' });
+  }
+});
+
+app.post('/api/views', async (req: Request, res: Response) => {
+  try {
+    const { name, filters }: SavedViewRequest = req.body;
+
+    if (typeof name !== 'string' || name.trim().length === 0 || name.trim().length > 100) {
+      res.status(400).json({ error: 'View name must be 1-100 characters' });
+      return;
+    }
+
+    const view = await createSavedView(req.user!.id, name.trim(), sanitizeViewFilters(filters));
+
+    if (!view) {
+      res.status(409).json({ error: 'A view with this name already exists' });
+      return;
+    }
+
+    res.status(201).json(view);
+  } catch (error) {
+    console.error('Error creating saved view:', error);
+    res.status(500).json({ error: 'Failed to create saved view' });
+  }
+});
+
+app.put('/api/views/:id', async (req: Request, res: Response) => {
+  try {
+    const id = parseInt(req.params.id);
+    const { name, filters }: SavedViewRequest = req.body;
+
+    if (name !== undefined && (typeof name !== 'string' || name.trim().length === 0 || name.trim().length > 100)) {
+      res.status(400).json({ error: 'View name must be 1-100 characters' });
+      return;
+    }
+
+    const view = await updateSavedView(
+      req.user!.id,
+      id,
+      name?.trim(),
+      filters !== undefined ? sanitizeViewFilters(filters) : undefined
+    );
+
+    if (!view) {
+      res.status(404).json({ error: 'View not found' });
+      return;
+    }
+
+    res.json(view);
+  } catch (error: any) {
+    if (error.code === PG_UNIQUE_VIOLATION) {
+      res.status(409).json({ error: 'A view with this name already exists' });
+      return;
+    }
+    console.error('Error updating saved view:', error);
+    res.status(500).json({ error: 'Failed to update saved view' });
+  }
+});
+
+app.delete('/api/views/:id', async (req: Request, res: Response) => {
+  try {
+    const id = parseInt(req.params.id);
+    const deleted = await deleteSavedView(req.user!.id, id);
+
+    if (!deleted) {
+      res.status(404).json({ error: 'View not found' });
+      return;
+    }
+
+    res.status(204).send();
+  } catch (error) {
+    console.error('Error deleting saved view:', error);
+    res.status(500).json({ error: 'Failed to delete saved view' });
+  }
+});
+
+// Reminders endpoints
+app.get('/api/reminders', async (req: Request, res: Response) => {
+  try {
+    const notes = await getReminders(req.user!.id);
+    res.json(notes);
+  } catch (error) {
+    console.error('Error fetching reminders:', error);
+    res.status(500).json({ error: 'Failed to fetch reminders' });
+  }
+});
+
+// null when Web Push isn't configured; reminders then only reach open clients
+app.get('/api/push/public-key', (req: Request, res: Response) => {
+  res.json({ publicKey: getVapidPublicKey() });
+});
+
+app.post('/api/push/subscriptions', async (req: Request, res: Response) => {
+  try {
+    const subscription: PushSubscriptionRequest = req.body;
+
+    if (
+      typeof subscription?.endpoint !== 'string' ||
+      !/^https?:\/\//.test(subscription.endpoint) ||
+      typeof subscription.keys?.p256dh !== 'string' ||
+      typeof subscription.keys?.auth !== 'string'
+    ) {
+      res.status(400).json({ error: 'Body must be a push subscription with endpoint and keys' });
+      return;
+    }
+
+    await savePushSubscription(req.user!.id, subscription);
+    res.status(201).json({ endpoint: subscription.endpoint });
+  } catch (error) {
+    console.error('Error saving push subscription:', error);
+    res.status(500).json({ error: 'Failed to save push subscription' });
+  }
+});
+
+app.delete('/api/push/subscriptions', async (req: Request, res: Response) => {
+  try {
+    const { endpoint } = req.body;
+
+    if (typeof endpoint !== 'string') {
+      res.status(400).json({ error: 'endpoint is required' });
+      return;
+    }
+
+    const deleted = await deletePushSubscription(req.user!.id, endpoint);
+
+    if (!deleted) {
+      res.status(404).json({ error: 'Subscription not found' });
+      return;
+    }
+
+    res.status(204).send();
+  } catch (error) {
+    console.error('Error deleting push subscription:', error);
+    res.status(500).json({ error: 'Failed to delete push subscription' });
+  }
+});
+
+// Drafts endpoints
+app.get('/api/drafts/:key', async (req: Request, res: Response) => {
+  try {
+    const key = parseDraftKey(req.params.key);
+    if (key === undefined) {
+      res.status(400).json({ error: 'Draft key must be a note id or "new"' });
+      return;
+    }
+
+    const draft = await getDraft(req.user!.id, key);
+
+    if (!draft) {
+      res.status(404).json({ error: 'Draft not found' });
+      return;
+    }
+
+    res.json(draft);
+  } catch (error) {
+    console.error('Error fetching draft:', error);
+    res.status(500).json({ error: 'Failed to fetch draft' });
+  }
+});
+
+// Autosave target: overwrites the draft without touching the note or its versions
+app.put('/api/drafts/:key', async (req: Request, res: Response) => {
+  try {
+    const key = parseDraftKey(req.params.key);
+    const { content, baseVersion }: SaveDraftRequest = req.body;
+
+    if (key === undefined) {
+      res.status(400).json({ error: 'Draft key must be a note id or "new"' });
+      return;
+    }
+
+    if (typeof content !== 'string') {
+      res.status(400).json({ error: 'Content is required' });
+      return;
+    }
+
+    if (baseVersion !== undefined && (!Number.isInteger(baseVersion) || baseVersion < 1)) {
+      res.status(400).json({ error: 'baseVersion must be a positive integer' });
+      return;
+    }
+
+    const draft = await saveDraft(req.user!.id, key, content, baseVersion);
+
+    if (!draft) {
+      res.status(404).json({ error: 'Note not found' });
+      return;
+    }
+
+    res.json(draft);
+  } catch (error) {
+    console.error('Error saving draft:', error);
+    res.status(500).json({ error: 'Failed to save draft' });
+  }
+});
+
+app.delete('/api/drafts/:key', async (req: Request, res: Response) => {
+  try {
+    const key = parseDraftKey(req.params.key);
+    if (key === undefined) {
+      res.status(400).json({ error: 'Draft key must be a note id or "new"' });
+      return;
+    }
+
+    const deleted = await deleteDraft(req.user!.id, key);
+
+    if (!deleted) {
+      res.status(404).json({ error: 'Draft not found' });
+      return;
+    }
+
+    res.status(204).send();
+  } catch (error) {
+    console.error('Error deleting draft:', error);
+    res.status(500).json({ error: 'Failed to delete draft' });
+  }
+});
+
+// Attachment endpoints (multipart upload of one or more files in the "files" field)
+app.post('/api/notes/:id/attachments', (req: Request, res: Response, next) => {
+  attachmentUpload(req, res, (err: unknown) => {
+    if (err instanceof multer.MulterError) {
+      res.status(400).json({ error: err.code === 'LIMIT_FILE_SIZE' ? 'File is too large' : err.message });
+      return;
+    }
+    next(err);
+  });
+}, async (req: Request, res: Response) => {
+  try {
+    const id = parseInt(req.params.id);
+    const files = (req.files as Express.Multer.File[] | undefined) || [];
+
+    if (files.length === 0) {
+      res.status(400).json({ error: 'At least one file is required' });
+      return;
+    }
+
+    const unsupported = files.find(file => !isAllowedAttachmentType(file.mimetype));
+    if (unsupported) {
+      res.status(400).json({ error: `Unsupported file type for ${unsupported.originalname}; attach images, PDFs or audio` });
+      return;
+    }
+
+    const attachments = await addAttachments(req.user!.id, id, files);
+
+    if (!attachments) {
+      res.status(404).json({ error: 'Note not found' });
+      return;
+    }
+
+    res.status(201).json(attachments);
+  } catch (error) {
+    console.error('Error uploading attachments:', error);
+    res.status(500).json({ error: 'Failed to upload attachments' });
+  }
+});
+
+app.get('/api/notes/:id/attachments', async (req: Request, res: Response) => {
+  try {
+    const id = parseInt(req.params.id);
+    const attachments = await getAttachments(req.user!.id, id);
+
+    if (!attachments) {
+      res.status(404).json({ error: 'Note not found' });
+      return;
+    }
+
+    res.json(attachments);
+  } catch (error) {
+    console.error('Error fetching attachments:', error);
+    res.status(500).json({ error: 'Failed to fetch attachments' });
+  }
+});
+
+// Files never change once uploaded, so browsers may keep them; the thumbnail route serves the image preview
+async function sendAttachment(req: Request, res: Response, thumbnail: boolean) {
+  try {
+    const id = parseInt(req.params.id);
+    const opened = await openAttachment(req.user!.id, id, thumbnail);
+
+    if (!opened) {
+      res.status(404).json({ error: thumbnail ? 'Thumbnail not found' : 'Attachment not found' });
+      return;
+    }
+
+    const disposition = req.query.download === 'true' ? 'attachment' : 'inline';
+    res.setHeader('Content-Type', opened.contentType);
+    // RFC 5987 doesn't allow the ' ( ) * that encodeURIComponent leaves alone
+    const filename = encodeURIComponent(opened.attachment.filename)
+      .replace(/['()*]/g, c => '%' + c.charCodeAt(0).toString(16).toUpperCase());
+    res.setHeader('Content-Disposition', `${disposition}; filename*=UTF-8''${filename}`);
+    res.setHeader('Cache-Control', 'private, max-age=31536000, immutable');
+    res.setHeader('X-Content-Type-Options', 'nosniff');
+
+    opened.stream.on('error', error => {
+      console.error('Error streaming attachment:', error);
+      res.destroy();
+    });
+    opened.stream.pipe(res);
+  } catch (error: any) {
+    if (error.code === 'ENOENT' || error.name === 'NoSuchKey') {
+      res.status(404).json({ error: 'Attachment file is missing' });
+      return;
+    }
+    console.error('Error fetching attachment:', error);
+    res.status(500).json({ error: 'Failed to fetch attachment' });
+  }
+}
+
+app.get('/api/attachments/:id', (req: Request, res: Response) => sendAttachment(req, res, false));
+app.get('/api/attachments/:id/thumbnail', (req: Request, res: Response) => sendAttachment(req, res, true));
+
+app.delete('/api/attachments/:id', async (req: Request, res: Response) => {
+  try {
+    const id = parseInt(req.params.id);
+    const deleted = await deleteAttachment(req.user!.id, id);
+
+    if (!deleted) {
+      res.status(404).json({ error: 'Attachment not found' });
+      return;
+    }
+
+    res.status(204).send();
+  } catch (error) {
+    console.error('Error deleting attachment:', error);
+    res.status(500).json({ error: 'Failed to delete attachment' });
+  }
+});
+
+// Voice note endpoints: the recording is kept as an attachment and transcribed into the note in the background
+app.post('/api/notes/voice', (req: Request, res: Response, next) => {
+  voiceUpload(req, res, (err: unknown) => {
+    if (err instanceof multer.MulterError) {
+      res.status(400).json({ error: err.code === 'LIMIT_FILE_SIZE' ? 'Recording is too large' : err.message });
+      return;
+    }
+    next(err);
+  });
+}, async (req: Request, res: Response) => {
+  try {
+    const recording = req.file;
+
+    if (!recording) {
+      res.status(400).json({ error: 'A recording is required in the "audio" field' });
+      return;
+    }
+
+    if (!normalizeContentType(recording.mimetype).startsWith('audio/') || !isAllowedAttachmentType(recording.mimetype)) {
+      res.status(400).json({ error: 'The recording must be an audio file' });
+      return;
+    }
+
+    const note = await createVoiceNote(req.user!.id, recording);
+    checkTranscriptions();
+    res.status(201).json(note);
+  } catch (error) {
+    console.error('Error creating voice note:', error);
+    res.status(500).json({ error: 'Failed to create voice note' });
+  }
+});
+
+// (Re-)transcribes one of the note's audio attachments, e.g. after a failure; the transcript is added to the note
+app.post('/api/notes/:id/transcript', async (req: Request, res: Response) => {
+  try {
+    const id = parseInt(req.params.id);
+    const { attachmentId }: TranscribeNoteRequest = req.body;
+
+    if (!Number.isInteger(attachmentId)) {
+      res.status(400).json({ error: 'attachmentId is required' });
+      return;
+    }
+
+    const note = await getNoteById(req.user!.id, id);
+
+    if (!note) {
+      res.status(404).json({ error: 'Note not found' });
+      return;
+    }
+
+    const attachment = note.attachments?.find(a => a.id === attachmentId);
+
+    if (!attachment) {
+      res.status(404).json({ error: 'Attachment not found' });
+      return;
+    }
+
+    if (!attachment.content_type.startsWith('audio/')) {
+      res.status(400).json({ error: 'Only audio attachments can be transcribed' });
+      return;
+    }
+
+    if (note.transcript_status === 'pending' || note.transcript_status === 'processing') {
+      res.status(409).json({ error: 'The note is already being transcribed' });
+      return;
+    }
+
+    const queued = await queueTranscription(req.user!.id, id, attachmentId);
+
+    if (!queued) {
+      res.status(404).json({ error: 'Note not found' });
+      return;
+    }
+
+    checkTranscriptions();
+    res.status(202).json(queued);
+  } catch (error) {
+    console.error('Error queueing transcription:', error);
+    res.status(500).json({ error: 'Failed to queue transcription' });
+  }
+});
+
+// Export endpoint
+app.get('/api/export', async (req: Request, res: Response) => {
+  const format = (req.query.format as string) || 'json';
+
+  if (format !== 'json' && format !== 'markdown') {
+    res.status(400).json({ error: 'format must be "json" or "markdown"' });
+    return;
+  }
+
+  const tagMode = (req.query.tagMode as string) || 'or';
+  if (tagMode !== 'and' && tagMode !== 'or') {
+    res.status(400).json({ error: 'tagMode must be "and" or "or"' });
+    return;
+  }
+
+  const tags = parseListParam(req.query.tags);
+  const excludeTags = parseListParam(req.query.excludeTags);
+  if (tags === null || excludeTags === null) {
+    res.status(400).json({ error: 'tags and excludeTags must each be a single comma-separated list' });
+    return;
+  }
+
+  const ids = parseListParam(req.query.ids);
+  const noteIds = ids?.map(id => Number(id));
+  if (ids === null || (noteIds && noteIds.some(id => !Number.isInteger(id) || id < 1 || id > MAX_NOTE_ID))) {
+    res.status(400).json({ error: 'ids must be a comma-separated list of note ids' });
+    return;
+  }
+
+  const options: ExportOptions = {
+    format,
+    includeHistory: req.query.history === 'true',
+    tags,
+    tagMode,
+    excludeTags,
+    noteIds,
+  };
+
+  const date = new Date().toISOString().slice(0, 10);
+  res.setHeader('Content-Type', 'application/zip');
+  res.setHeader('Content-Disposition', `attachment; filename="omnirambles-${format}-${date}.zip"`);
+
+  try {
+    await writeExportArchive(req.user!.id, options, res);
+  } catch (error) {
+    console.error('Error exporting notes:', error);
+    // Headers are already sent once the archive starts streaming, so just abort the download
+    if (res.headersSent) {
+      res.destroy();
+    } else {
+      res.removeHeader('Content-Disposition');
+      res.status(500).json({ error: 'Failed to export notes' });
+    }
+  }
+});
+
+// Import endpoint (multipart upload of one or more files in the "files" field)
+app.post('/api/import', (req: Request, res: Response, next) => {
+  importUpload(req, res, (err: unknown) => {
+    if (err instanceof multer.MulterError) {
+      res.status(400).json({ error: err.code === 'LIMIT_FILE_SIZE' ? 'File is too large' : err.message });
+      return;
+    }
+    next(err);
+  });
+}, async (req: Request, res: Response) => {
+  try {
+    const files = (req.files as Express.Multer.File[] | undefined) || [];
+    const dryRun = req.query.dryRun === 'true';
+
+    if (files.length === 0) {
+      res.status(400).json({ error: 'At least one file is required' });
+      return;
+    }
+
+    const parsed: ImportParseResult = { notes: [], skipped: [] };
+    for (const file of files) {
+      const result = await parseImportFile(file.originalname, file.buffer);
+      parsed.notes.push(...result.notes);
+      parsed.skipped.push(...result.skipped);
+    }
+
+    const report = await importNotes(req.user!.id, parsed.notes, parsed.skipped, dryRun);
+    res.status(dryRun ? 200 : 201).json(report);
+  } catch (error) {
+    console.error('Error importing notes:', error);
+    res.status(500).json({ error: 'Failed to import notes' });
+  }
+});
+
+// Catch-all route to serve index.html for client-side routing
+app.get('*', (req: Request, res: Response) => {
+  res.sendFile(path.join(frontendDistPath, 'index.html'));
+});
+
+// Permanently delete notes that have been in the trash longer than the retention period,
+// along with expired login sessions
+async function purgeExpiredTrash() {
+  try {
+    const count = await purgeExpiredNotes(TRASH_RETENTION_DAYS);
+    if (count > 0) {
+      console.log(`🗑️  Purged ${count} note(s) older than ${TRASH_RETENTION_DAYS} days from trash`);
+    }
+    await purgeExpiredSessions();
+  } catch (error) {
+    console.error('Error purging expired trash:', error);
+  }
+}
+
+// Transcribe voice notes recorded since the last check; also started as soon as one is queued
+async function checkTranscriptions() {
+  try {
+    const count = await transcribePending();
+    if (count > 0) {
+      console.log(`🎙️  Transcribed ${count} voice note(s)`);
+    }
+  } catch (error) {
+    console.error('Error transcribing voice notes:', error);
+  }
+}
+
+// Fire reminders that have come due since the last check
+async function checkReminders() {
+  try {
+    const count = await sendDueReminders();
+    if (count > 0) {
+      console.log(`⏰ Sent ${count} reminder(s)`);
+    }
+  } catch (error) {
+    console.error('Error sending reminders:', error);
+  }
+}
 
 // Start server
 async function start() {
   try {
     await testConnection();
+    await purgeExpiredTrash();
+    setInterval(purgeExpiredTrash, TRASH_PURGE_INTERVAL_MS);
+    await checkReminders();
+    setInterval(checkReminders, REMINDER_CHECK_INTERVAL_MS);
+    await requeueInterruptedTranscriptions();
+    checkTranscriptions();
+    setInterval(checkTranscriptions, TRANSCRIPTION_CHECK_INTERVAL_MS);
     const port = typeof PORT === 'string' ? parseInt(PORT) : PORT;
     app.listen(port, '0.0.0.0', () => {
       console.log(`🚀 Server running on http://0.0.0.0:${port}`);
@@ -1,15 +1,118 @@
+import { diffLines, diffWordsWithSpace, ChangeObject } from 'diff';
+import { Pool, PoolClient } from 'pg';
 import { pool } from './db';
-import { Note, Tag, NoteVersion, CreateNoteRequest, UpdateNoteRequest, NoteFilters } from './types';
+import { publishEvent } from './events';
+import { setChecklistItemChecked } from './checklist';
+import { deleteStoredFiles } from './storage';
+import { Note, Tag, NoteVersion, NoteVersionDiff, DiffHunk, CreateNoteRequest, UpdateNoteRequest, UpdateNoteResult, NoteConflict, SetChecklistItemRequest, BulkNoteRequest, BulkNoteResult, NoteFilters, NoteCursor, NotePage, ImportedNote, ImportReport, ImportSkippedFile } from './types';
 
-export async function createNote(data: CreateNoteRequest): Promise<Note> {
+// Attachment metadata for the note aliased n, oldest first (see Attachment in types.ts)
+const NOTE_ATTACHMENTS = `COALESCE(
+        (SELECT json_agg(json_build_object(
+           'id', a.id, 'note_id', a.note_id, 'version', a.version, 'filename', a.filename,
+           'content_type', a.content_type, 'size_bytes', a.size_bytes,
+           'has_thumbnail', a.thumbnail_key IS NOT NULL, 'created_at', a.created_at
+         ) ORDER BY a.id)
+         FROM attachments a WHERE a.note_id = n.id),
+        '[]'::json
+      )`;
+
+// Highlighted matches are wrapped in <mark> so the frontend can render them
+const HEADLINE_OPTIONS = 'StartSel=<mark>, StopSel=</mark>, MaxFragments=2, MaxWords=20, MinWords=5';
+
+// Locks a note row for the rest of the transaction, if it belongs to the user and isn't trashed
+async function lockOwnedNote(client: PoolClient, userId: number, noteId: number): Promise<boolean> {
+  const result = await client.query(
+    'SELECT id FROM notes WHERE id = $1 AND user_id = $2 AND deleted_at IS NULL FOR UPDATE',
+    [noteId, userId]
+  );
+  return result.rows.length > 0;
+}
+
+// The latest version and revision of a note locked with lockOwnedNote
+async function getNoteRevision(client: PoolClient, noteId: number): Promise<{ maxVersion: number; revision: number }> {
+  const result = await client.query(
+    `SELECT revision, COALESCE((SELECT MAX(version) FROM note_versions WHERE note_id = n.id), 0) as max_version
+     FROM notes n WHERE id = $1`,
+    [noteId]
+  );
+  return { maxVersion: result.rows[0].max_version, revision: result.rows[0].revision };
+}
+
+// What a client's change was based on: a new version means the note was edited since,
+// a new revision that it was edited or had a checklist item ticked
+interface NoteBase {
+  baseVersion?: number;
+  baseRevision?: number;
+}
+
+function isStale(base: NoteBase, currentVersion: number, revision: number): boolean {
+  return (base.baseVersion !== undefined && base.baseVersion !== currentVersion) ||
+    (base.baseRevision !== undefined && base.baseRevision !== revision);
+}
+
+// The 409 for a client whose base version or revision is out of date; null if the note is gone
+async function getConflict(userId: number, id: number, base: NoteBase, currentVersion: number): Promise<{ conflict: NoteConflict } | null> {
+  const note = await getNoteById(userId, id);
+  if (!note) return null;
+
+  const latestVersion = note.current_version || currentVersion;
+  return {
+    conflict: {
+      error: base.baseVersion !== undefined && base.baseVersion !== latestVersion
+        ? `Note has been changed since version ${base.baseVersion}`
+        : `Note has been changed since revision ${base.baseRevision}`,
+      base_version: base.baseVersion,
+      current_version: latestVersion,
+      base_revision: base.baseRevision,
+      current_revision: note.revision,
+      note,
+    },
+  };
+}
+
+// Tag names are slash-separated paths ("work/projectx"); a tag's parent is its path minus the last segment
+export function normalizeTagName(name: string): string {
+  return name
+    .toLowerCase()
+    .split('/')
+    .map(segment => segment.trim())
+    .filter(segment => segment.length > 0)
+    .join('/');
+}
+
+function tagAncestors(name: string): string[] {
+  const segments = name.split('/');
+  return segments.slice(0, -1).map((_, i) => segments.slice(0, i + 1).join('/'));
+}
+
+// Inserts or gets a tag by path, creating any missing parent tags on the way
+async function upsertTag(db: Pool | PoolClient, userId: number, name: string, source: 'AI' | 'Self'): Promise<Tag> {
+  const path = normalizeTagName(name);
+
+  for (const ancestor of tagAncestors(path)) {
+    await db.query(
+      'INSERT INTO tags (user_id, name, source) VALUES ($1, $2, $3) ON CONFLICT (user_id, name) DO NOTHING',
+      [userId, ancestor, source]
+    );
+  }
+
+  const tagResult = await db.query(
+    'INSERT INTO tags (user_id, name, source) VALUES ($1, $2, $3) ON CONFLICT (user_id, name) DO UPDATE SET name = EXCLUDED.name RETURNING id, name, source',
+    [userId, path, source]
+  );
+  return tagResult.rows[0];
+}
+
+export async function createNote(userId: number, data: CreateNoteRequest): Promise<Note> {
   const client = await pool.connect();
   try {
     await client.query('BEGIN');
 
     // Insert note
     const noteResult = await client.query(
-      'INSERT INTO notes (content) VALUES ($1) RETURNING *',
-      [data.content]
+      'INSERT INTO notes (user_id, content) VALUES ($1, $2) RETURNING *',
+      [userId, data.content]
     );
     const note = noteResult.rows[0];
 
@@ -21,11 +124,13 @@ export async function createNote(data: CreateNoteRequest): Promise<Note> {
 
     await client.query('COMMIT');
 
-    return {
+    const created: Note = {
       ...note,
       current_version: 1,
       tags: [],
     };
+    publishEvent(userId, { type: 'note.created', note: created });
+    return created;
   } catch (error) {
     await client.query('ROLLBACK');
     throw error;
@@ -34,20 +139,185 @@ export async function createNote(data: CreateNoteRequest): Promise<Note> {
   }
 }
 
-export async function getNotes(filters: NoteFilters = {}): Promise<Note[]> {
+// Cursors are opaque to clients: base64url JSON of [pinned, sort value, id, rank?]
+function encodeNoteCursor(cursor: NoteCursor): string {
+  const parts: unknown[] = [cursor.pinned, cursor.value, cursor.id];
+  if (cursor.rank !== undefined) parts.push(cursor.rank);
+  return Buffer.from(JSON.stringify(parts)).toString('base64url');
+}
+
+export function parseNoteCursor(encoded: string): NoteCursor | null {
+  try {
+    const [pinned, value, id, rank] = JSON.parse(Buffer.from(encoded, 'base64url').toString('utf8'));
+    if (typeof pinned !== 'boolean' || typeof value !== 'string' || isNaN(Date.parse(value)) || !Number.isInteger(id)) {
+      return null;
+    }
+    if (rank !== undefined && typeof rank !== 'number') {
+      return null;
+    }
+    return { pinned, value, id, rank };
+  } catch {
+    return null;
+  }
+}
+
+export async function getNotes(userId: number, filters: NoteFilters = {}): Promise<NotePage> {
   const {
+    ids,
+    archived = 'exclude',
+    q,
+    includeHistory = false,
     tags = [],
+    tagMode = 'or',
+    excludeTags = [],
+    untagged = false,
+    createdFrom,
+    createdTo,
+    updatedFrom,
+    updatedTo,
+    moreThanVersions,
     sortBy = 'created_at',
     sortOrder = 'desc',
     limit = 100,
-    offset = 0,
+    cursor,
   } = filters;
 
-  const params: any[] = [];
-  const conditions: string[] = [];
+  const params: any[] = [userId];
+  const conditions: string[] = ['n.user_id = $1', 'n.deleted_at IS NULL'];
+  let searchColumns = '';
+  let tsQuery = '';
+  let rankExpression = '';
+
+  if (ids) {
+    params.push(ids);
+    conditions.push(`n.id = ANY($${params.length}::int[])`);
+  }
+
+  if (archived !== 'include') {
+    conditions.push(archived === 'only' ? 'n.archived' : 'NOT n.archived');
+  }
+
+  // Full-text search over current content (and optionally older versions)
+  if (q && q.trim().length > 0) {
+    params.push(q.trim());
+    tsQuery = `websearch_to_tsquery('english', $${params.length})`;
+
+    const historyMatch = `EXISTS (
+        SELECT 1 FROM note_versions nvs
+        WHERE nvs.note_id = n.id AND to_tsvector('english', nvs.content) @@ ${tsQuery}
+      )`;
+
+    conditions.push(includeHistory
+      ? `(to_tsvector('english', n.content) @@ ${tsQuery} OR ${historyMatch})`
+      : `to_tsvector('english', n.content) @@ ${tsQuery}`);
+
+    rankExpression = `ts_rank(to_tsvector('english', n.content), ${tsQuery})`;
+
+    // Snippets fall back to the newest matching version when only history matched
+    searchColumns = `,
+      ${rankExpression} as rank,
+      CASE WHEN to_tsvector('english', n.content) @@ ${tsQuery}
+        THEN ts_headline('english', n.content, ${tsQuery}, '${HEADLINE_OPTIONS}')
+        ELSE (SELECT ts_headline('english', nvh.content, ${tsQuery}, '${HEADLINE_OPTIONS}')
+              FROM note_versions nvh
+              WHERE nvh.note_id = n.id AND to_tsvector('english', nvh.content) @@ ${tsQuery}
+              ORDER BY nvh.version DESC
+              LIMIT 1)
+      END as snippet,
+      NOT (to_tsvector('english', n.content) @@ ${tsQuery}) as matched_history`;
+  }
+
+  // Tag filtering: OR matches any selected tag, AND requires every one of them.
+  // A selected tag also matches every tag nested under it.
+  const tagMatchJoin = (param: string) =>
+    `JOIN unnest(${param}::text[]) f(name) ON t.name = f.name OR starts_with(t.name, f.name || '/')`;
+
+  if (tags.length > 0) {
+    const tagNames = [...new Set(tags.map(normalizeTagName))];
+    params.push(tagNames);
+    const tagsParam = `$${params.length}`;
+
+    if (tagMode === 'and') {
+      params.push(tagNames.length);
+      conditions.push(`n.id IN (
+        SELECT nt.note_id
+        FROM note_tags nt
+        JOIN tags t ON nt.tag_id = t.id
+        ${tagMatchJoin(tagsParam)}
+        GROUP BY nt.note_id
+        HAVING COUNT(DISTINCT f.name) = $${params.length}
+      )`);
+    } else {
+      conditions.push(`n.id IN (
+        SELECT nt.note_id
+        FROM note_tags nt
+        JOIN tags t ON nt.tag_id = t.id
+        ${tagMatchJoin(tagsParam)}
+      )`);
+    }
+  }
+
+  // Excluded (NOT) tags drop any note carrying one of them or a tag nested under them
+  if (excludeTags.length > 0) {
+    params.push(excludeTags.map(normalizeTagName));
+    conditions.push(`n.id NOT IN (
+      SELECT nt.note_id
+      FROM note_tags nt
+      JOIN tags t ON nt.tag_id = t.id
+      ${tagMatchJoin(`$${params.length}`)}
+    )`);
+  }
+
+  if (untagged) {
+    conditions.push('NOT EXISTS (SELECT 1 FROM note_tags ntu WHERE ntu.note_id = n.id)');
+  }
+
+  // Date ranges are inclusive on both ends
+  const dateRanges: Array<[Date | undefined, string]> = [
+    [createdFrom, 'n.created_at >='],
+    [createdTo, 'n.created_at <='],
+    [updatedFrom, 'n.updated_at >='],
+    [updatedTo, 'n.updated_at <='],
+  ];
+  for (const [date, comparison] of dateRanges) {
+    if (date) {
+      params.push(date);
+      conditions.push(`${comparison} $${params.length}`);
+    }
+  }
+
+  if (moreThanVersions !== undefined) {
+    params.push(moreThanVersions);
+    conditions.push(`(SELECT COUNT(*) FROM note_versions nvc WHERE nvc.note_id = n.id) > $${params.length}`);
+  }
+
+  // Total ignores the cursor so it always describes the whole result set
+  const countResult = await pool.query(
+    `SELECT CAST(COUNT(*) AS INTEGER) as total FROM notes n WHERE ${conditions.join(' AND ')}`,
+    params
+  );
+
+  // Keyset pagination: continue strictly after the cursor in (pinned, rank, sort column, id) order
+  const direction = sortOrder.toUpperCase();
+  if (cursor) {
+    params.push(cursor.value, cursor.id);
+    const comparison = direction === 'DESC' ? '<' : '>';
+    let afterCursor = `(n.${sortBy}, n.id) ${comparison} ($${params.length - 1}::timestamptz, $${params.length})`;
+
+    if (rankExpression && cursor.rank !== undefined) {
+      params.push(cursor.rank);
+      const rank = `$${params.length}::real`;
+      afterCursor = `(${rankExpression} < ${rank} OR (${rankExpression} = ${rank} AND ${afterCursor}))`;
+    }
+
+    params.push(cursor.pinned);
+    const pinned = `$${params.length}::boolean`;
+    conditions.push(`(n.pinned < ${pinned} OR (n.pinned = ${pinned} AND ${afterCursor}))`);
+  }
 
   let query = `
     SELECT n.*,
+      n.${sortBy}::text as sort_value,
       COALESCE(MAX(nv.version), 1) as current_version,
       COALESCE(
         (SELECT json_agg(json_build_object('id', t.id, 'name', t.name, 'source', t.source))
@@ -56,34 +326,44 @@ export async function getNotes(filters: NoteFilters = {}): Promise<Note[]> {
                JOIN tags t ON nt2.tag_id = t.id
                WHERE nt2.note_id = n.id) t),
         '[]'::json
-      ) as tags
+      ) as tags,
+      ${NOTE_ATTACHMENTS} as attachments${searchColumns}
     FROM notes n
     LEFT JOIN note_versions nv ON n.id = nv.note_id
   `;
 
-  // Add tag filtering if needed
-  if (tags.length > 0) {
-    params.push(tags);
-    query += `
-    WHERE n.id IN (
-      SELECT DISTINCT nt.note_id
-      FROM note_tags nt
-      JOIN tags t ON nt.tag_id = t.id
-      WHERE t.name = ANY($${params.length})
-    )`;
-  }
+  query += ` WHERE ${conditions.join(' AND ')}`;
 
   query += ` GROUP BY n.id`;
-  query += ` ORDER BY n.${sortBy} ${sortOrder.toUpperCase()}`;
-  query += ` LIMIT $${params.length + 1} OFFSET $${params.length + 2}`;
+  // Pinned notes always come first. Search results are then ranked, and fall back to the
+  // requested sort; id breaks ties
+  query += tsQuery
+    ? ` ORDER BY n.pinned DESC, rank DESC, n.${sortBy} ${direction}, n.id ${direction}`
+    : ` ORDER BY n.pinned DESC, n.${sortBy} ${direction}, n.id ${direction}`;
 
-  params.push(limit, offset);
+  // Fetch one extra row to know whether another page follows
+  params.push(limit + 1);
+  query += ` LIMIT $${params.length}`;
 
   const result = await pool.query(query, params);
-  return result.rows;
+  const rows = result.rows.slice(0, limit);
+  const last = rows[rows.length - 1];
+
+  return {
+    notes: rows.map(({ sort_value, ...note }) => note),
+    total: countResult.rows[0].total,
+    next_cursor: result.rows.length > limit && last
+      ? encodeNoteCursor({
+          pinned: last.pinned,
+          value: last.sort_value,
+          id: last.id,
+          rank: tsQuery ? last.rank : undefined,
+        })
+      : null,
+  };
 }
 
-export async function getNoteById(id: number): Promise<Note | null> {
+export async function getNoteById(userId: number, id: number): Promise<Note | null> {
   const result = await pool.query(
     `
     SELECT n.*,
@@ -95,35 +375,57 @@ export async function getNoteById(id: number): Promise<Note | null> {
                JOIN tags t ON nt2.tag_id = t.id
                WHERE nt2.note_id = n.id) t),
         '[]'::json
-      ) as tags
+      ) as tags,
+      ${NOTE_ATTACHMENTS} as attachments
     FROM notes n
     LEFT JOIN note_versions nv ON n.id = nv.note_id
-    WHERE n.id = $1
+    WHERE n.id = $1 AND n.user_id = $2 AND n.deleted_at IS NULL
     GROUP BY n.id
     `,
-    [id]
+    [id, userId]
   );
 
   return result.rows[0] || null;
 }
 
-export async function updateNote(id: number, data: UpdateNoteRequest): Promise<Note | null> {
+// Reloads a note after a change and tells the user's other clients about it
+export async function getUpdatedNote(userId: number, id: number): Promise<Note | null> {
+  const note = await getNoteById(userId, id);
+  if (note) publishEvent(userId, { type: 'note.updated', note });
+  return note;
+}
+
+/**
+ * Saves new content as the next version and/or replaces the note's tags.
+ * With baseVersion (or baseRevision) set, the update only applies if that is still the latest one;
+ * otherwise nothing is written and the current note is returned as a conflict.
+ */
+export async function updateNote(userId: number, id: number, data: UpdateNoteRequest): Promise<UpdateNoteResult | null> {
   const client = await pool.connect();
   try {
     await client.query('BEGIN');
 
+    if (!(await lockOwnedNote(client, userId, id))) {
+      await client.query('ROLLBACK');
+      return null;
+    }
+
+    // The row lock above serializes concurrent updates, so this stays the latest version until COMMIT
+    const { maxVersion, revision } = await getNoteRevision(client, id);
+    const currentVersion = Math.max(maxVersion, 1);
+
+    if (isStale(data, currentVersion, revision)) {
+      await client.query('ROLLBACK');
+      return await getConflict(userId, id, data, currentVersion);
+    }
+
     // If content is being updated, create a new version
     if (data.content !== undefined) {
-      // Get current max version
-      const versionResult = await client.query(
-        'SELECT COALESCE(MAX(version), 0) as max_version FROM note_versions WHERE note_id = $1',
-        [id]
-      );
-      const newVersion = versionResult.rows[0].max_version + 1;
+      const newVersion = maxVersion + 1;
 
       // Update note content
       await client.query(
-        'UPDATE notes SET content = $1 WHERE id = $2',
+        'UPDATE notes SET content = $1, revision = revision + 1 WHERE id = $2',
         [data.content, id]
       );
 
@@ -149,11 +451,7 @@ export async function updateNote(id: number, data: UpdateNoteRequest): Promise<N
 
       // Add new tags
       for (const tagData of data.tags) {
-        const tagResult = await client.query(
-          'INSERT INTO tags (name, source) VALUES ($1, $2) ON CONFLICT (name) DO UPDATE SET name = EXCLUDED.name RETURNING *',
-          [tagData.name.toLowerCase(), tagData.source]
-        );
-        const tag = tagResult.rows[0];
+        const tag = await upsertTag(client, userId, tagData.name, tagData.source);
 
         await client.query(
           'INSERT INTO note_tags (note_id, tag_id) VALUES ($1, $2) ON CONFLICT DO NOTHING',
@@ -164,7 +462,62 @@ export async function updateNote(id: number, data: UpdateNoteRequest): Promise<N
 
     await client.query('COMMIT');
 
-    return await getNoteById(id);
+    if (data.tags !== undefined) publishEvent(userId, { type: 'tags.changed' });
+    const note = await getUpdatedNote(userId, id);
+    return note ? { note } : null;
+  } catch (error) {
+    await client.query('ROLLBACK');
+    throw error;
+  } finally {
+    client.release();
+  }
+}
+
+/**
+ * Ticks or unticks the checklist item on one line of the note. A tick isn't an edit, so the note's
+ * content changes without a new version (history stays as it was saved); only the revision goes
+ * up, so edits based on the unticked content are rejected as conflicts.
+ * Returns null if the note doesn't exist or that line isn't a checklist item.
+ */
+export async function setNoteChecklistItem(
+  userId: number,
+  id: number,
+  line: number,
+  data: SetChecklistItemRequest
+): Promise<UpdateNoteResult | null> {
+  const client = await pool.connect();
+  try {
+    await client.query('BEGIN');
+
+    const noteResult = await client.query(
+      'SELECT content FROM notes WHERE id = $1 AND user_id = $2 AND deleted_at IS NULL FOR UPDATE',
+      [id, userId]
+    );
+    if (noteResult.rows.length === 0) {
+      await client.query('ROLLBACK');
+      return null;
+    }
+
+    const { maxVersion, revision } = await getNoteRevision(client, id);
+    const currentVersion = Math.max(maxVersion, 1);
+
+    if (isStale(data, currentVersion, revision)) {
+      await client.query('ROLLBACK');
+      return await getConflict(userId, id, data, currentVersion);
+    }
+
+    const content = setChecklistItemChecked(noteResult.rows[0].content, line, data.checked);
+    if (content === null) {
+      await client.query('ROLLBACK');
+      return null;
+    }
+
+    await client.query('UPDATE notes SET content = $1, revision = revision + 1 WHERE id = $2', [content, id]);
+
+    await client.query('COMMIT');
+
+    const note = await getUpdatedNote(userId, id);
+    return note ? { note } : null;
   } catch (error) {
     await client.query('ROLLBACK');
     throw error;
@@ -173,77 +526,370 @@ export async function updateNote(id: number, data: UpdateNoteRequest): Promise<N
   }
 }
 
-export async function deleteNote(id: number): Promise<boolean> {
-  const result = await pool.query('DELETE FROM notes WHERE id = $1', [id]);
-  return result.rowCount ? result.rowCount > 0 : false;
+// Moves a note to the trash; it is only removed for good by purgeNote or the retention job
+export async function deleteNote(userId: number, id: number): Promise<boolean> {
+  const result = await pool.query(
+    'UPDATE notes SET deleted_at = CURRENT_TIMESTAMP WHERE id = $1 AND user_id = $2 AND deleted_at IS NULL',
+    [id, userId]
+  );
+  if (!result.rowCount) return false;
+
+  publishEvent(userId, { type: 'note.deleted', noteId: id });
+  return true;
+}
+
+export async function setNotePinned(userId: number, id: number, pinned: boolean): Promise<Note | null> {
+  const result = await pool.query(
+    'UPDATE notes SET pinned = $3 WHERE id = $1 AND user_id = $2 AND deleted_at IS NULL',
+    [id, userId, pinned]
+  );
+  if (!result.rowCount) return null;
+
+  return await getUpdatedNote(userId, id);
+}
+
+// Archiving also unpins, so the note isn't pinned when it comes back
+export async function setNoteArchived(userId: number, id: number, archived: boolean): Promise<Note | null> {
+  const result = await pool.query(
+    `UPDATE notes SET archived = $3, pinned = pinned AND NOT $3
+     WHERE id = $1 AND user_id = $2 AND deleted_at IS NULL`,
+    [id, userId, archived]
+  );
+  if (!result.rowCount) return null;
+
+  return await getUpdatedNote(userId, id);
+}
+
+// Setting a new time re-arms the reminder; null removes it
+export async function setNoteReminder(userId: number, id: number, remindAt: Date | null): Promise<Note | null> {
+  const result = await pool.query(
+    `UPDATE notes SET remind_at = $3, reminded_at = NULL
+     WHERE id = $1 AND user_id = $2 AND deleted_at IS NULL`,
+    [id, userId, remindAt]
+  );
+  if (!result.rowCount) return null;
+
+  return await getUpdatedNote(userId, id);
+}
+
+// Notes with a reminder, soonest first, including ones that already fired
+export async function getReminders(userId: number): Promise<Note[]> {
+  const result = await pool.query(
+    `
+    SELECT n.*,
+      COALESCE(MAX(nv.version), 1) as current_version,
+      COALESCE(
+        (SELECT json_agg(json_build_object('id', t.id, 'name', t.name, 'source', t.source))
+         FROM (SELECT DISTINCT t.id, t.name, t.source
+               FROM note_tags nt2
+               JOIN tags t ON nt2.tag_id = t.id
+               WHERE nt2.note_id = n.id) t),
+        '[]'::json
+      ) as tags,
+      ${NOTE_ATTACHMENTS} as attachments
+    FROM notes n
+    LEFT JOIN note_versions nv ON n.id = nv.note_id
+    WHERE n.user_id = $1 AND n.deleted_at IS NULL AND n.remind_at IS NOT NULL
+    GROUP BY n.id
+    ORDER BY n.remind_at ASC, n.id ASC
+    `,
+    [userId]
+  );
+
+  return result.rows;
+}
+
+/**
+ * Marks reminders that are due as sent and returns their notes. Each reminder is claimed
+ * exactly once, even with several backends polling the same database.
+ */
+export async function claimDueReminders(limit: number): Promise<Array<{ userId: number; note: Note }>> {
+  const result = await pool.query(
+    `UPDATE notes SET reminded_at = CURRENT_TIMESTAMP
+     WHERE id IN (
+       SELECT id FROM notes
+       WHERE remind_at <= CURRENT_TIMESTAMP AND reminded_at IS NULL AND deleted_at IS NULL
+       ORDER BY remind_at
+       LIMIT $1
+       FOR UPDATE SKIP LOCKED
+     )
+     RETURNING id, user_id`,
+    [limit]
+  );
+
+  const due: Array<{ userId: number; note: Note }> = [];
+  for (const row of result.rows) {
+    const note = await getUpdatedNote(row.user_id, row.id);
+    if (note) due.push({ userId: row.user_id, note });
+  }
+  return due;
+}
+
+// Trash functions
+export async function getTrash(userId: number): Promise<Note[]> {
+  const result = await pool.query(
+    `
+    SELECT n.*,
+      COALESCE(MAX(nv.version), 1) as current_version,
+      COALESCE(
+        (SELECT json_agg(json_build_object('id', t.id, 'name', t.name, 'source', t.source))
+         FROM (SELECT DISTINCT t.id, t.name, t.source
+               FROM note_tags nt2
+               JOIN tags t ON nt2.tag_id = t.id
+               WHERE nt2.note_id = n.id) t),
+        '[]'::json
+      ) as tags,
+      ${NOTE_ATTACHMENTS} as attachments
+    FROM notes n
+    LEFT JOIN note_versions nv ON n.id = nv.note_id
+    WHERE n.user_id = $1 AND n.deleted_at IS NOT NULL
+    GROUP BY n.id
+    ORDER BY n.deleted_at DESC
+    `,
+    [userId]
+  );
+  return result.rows;
 }
 
-export async function getAllTags(): Promise<Tag[]> {
+export async function restoreNote(userId: number, id: number): Promise<Note | null> {
+  const result = await pool.query(
+    'UPDATE notes SET deleted_at = NULL WHERE id = $1 AND user_id = $2 AND deleted_at IS NOT NULL',
+    [id, userId]
+  );
+
+  if (!result.rowCount) return null;
+
+  publishEvent(userId, { type: 'notes.changed' });
+  return await getNoteById(userId, id);
+}
+
+/**
+ * Permanently deletes the notes matching the condition, along with their attachment files.
+ * The attachment rows go with the notes (ON DELETE CASCADE); the join still sees them because
+ * every part of the statement reads the same snapshot. Returns how many notes were deleted.
+ */
+async function purgeNotes(condition: string, params: unknown[]): Promise<number> {
+  const result = await pool.query(
+    `WITH purged AS (DELETE FROM notes WHERE ${condition} RETURNING id)
+     SELECT p.id, a.storage_key, a.thumbnail_key
+     FROM purged p
+     LEFT JOIN attachments a ON a.note_id = p.id`,
+    params
+  );
+
+  const keys = result.rows.flatMap(row => [row.storage_key, row.thumbnail_key]).filter(Boolean);
+  if (keys.length > 0) await deleteStoredFiles(keys);
+
+  return new Set(result.rows.map(row => row.id)).size;
+}
+
+export async function purgeNote(userId: number, id: number): Promise<boolean> {
+  return (await purgeNotes('id = $1 AND user_id = $2 AND deleted_at IS NOT NULL', [id, userId])) > 0;
+}
+
+export async function emptyTrash(userId: number): Promise<number> {
+  return purgeNotes('user_id = $1 AND deleted_at IS NOT NULL', [userId]);
+}
+
+export async function purgeExpiredNotes(retentionDays: number): Promise<number> {
+  return purgeNotes('deleted_at < CURRENT_TIMESTAMP - make_interval(days => $1)', [retentionDays]);
+}
+
+export async function getAllTags(userId: number): Promise<Tag[]> {
   const result = await pool.query(
     `SELECT t.id, t.name, t.source,
       CAST(COUNT(DISTINCT nt.note_id) AS INTEGER) as note_count
      FROM tags t
-     LEFT JOIN note_tags nt ON t.id = nt.tag_id
+     LEFT JOIN (note_tags nt JOIN notes n ON nt.note_id = n.id AND n.deleted_at IS NULL)
+       ON t.id = nt.tag_id
+     WHERE t.user_id = $1
      GROUP BY t.id, t.name, t.source
-     ORDER BY t.name ASC`
+     ORDER BY t.name ASC`,
+    [userId]
   );
   return result.rows;
 }
 
-export async function createTag(name: string, source: 'Self'): Promise<Tag> {
+export async function getTag(userId: number, id: number): Promise<Tag | null> {
   const result = await pool.query(
-    'INSERT INTO tags (name, source) VALUES ($1, $2) ON CONFLICT (name) DO UPDATE SET name = EXCLUDED.name RETURNING id, name, source',
-    [name.toLowerCase(), source]
+    `SELECT t.id, t.name, t.source,
+      CAST(COUNT(DISTINCT nt.note_id) AS INTEGER) as note_count
+     FROM tags t
+     LEFT JOIN (note_tags nt JOIN notes n ON nt.note_id = n.id AND n.deleted_at IS NULL)
+       ON t.id = nt.tag_id
+     WHERE t.id = $1 AND t.user_id = $2
+     GROUP BY t.id, t.name, t.source`,
+    [id, userId]
   );
-  const tag = result.rows[0];
+  return result.rows[0] || null;
+}
+
+export async function createTag(userId: number, name: string, source: 'Self'): Promise<Tag> {
+  const tag = await upsertTag(pool, userId, name, source);
 
   // Get the count
   const countResult = await pool.query(
-    'SELECT CAST(COUNT(DISTINCT note_id) AS INTEGER) as note_count FROM note_tags WHERE tag_id = $1',
+    `SELECT CAST(COUNT(DISTINCT nt.note_id) AS INTEGER) as note_count
+     FROM note_tags nt
+     JOIN notes n ON nt.note_id = n.id
+     WHERE nt.tag_id = $1 AND n.deleted_at IS NULL`,
     [tag.id]
   );
 
+  publishEvent(userId, { type: 'tags.changed' });
   return {
     ...tag,
     note_count: countResult.rows[0].note_count
   };
 }
 
-export async function updateTag(id: number, newName: string): Promise<Tag | null> {
-  const result = await pool.query(
-    'UPDATE tags SET name = $1 WHERE id = $2 RETURNING id, name, source',
-    [newName.toLowerCase(), id]
-  );
+// Renaming a tag also renames every tag nested under it, so moving a parent moves its subtree
+export async function updateTag(userId: number, id: number, newName: string): Promise<Tag | null> {
+  const client = await pool.connect();
+  try {
+    await client.query('BEGIN');
 
-  if (!result.rows[0]) return null;
+    const currentResult = await client.query(
+      'SELECT name, source FROM tags WHERE id = $1 AND user_id = $2 FOR UPDATE',
+      [id, userId]
+    );
 
-  const tag = result.rows[0];
+    if (!currentResult.rows[0]) {
+      await client.query('ROLLBACK');
+      return null;
+    }
 
-  // Get the count
-  const countResult = await pool.query(
-    'SELECT CAST(COUNT(DISTINCT note_id) AS INTEGER) as note_count FROM note_tags WHERE tag_id = $1',
-    [tag.id]
-  );
+    const { name: oldName, source } = currentResult.rows[0];
+    const name = normalizeTagName(newName);
 
-  return {
-    ...tag,
-    note_count: countResult.rows[0].note_count
-  };
+    if (name !== oldName) {
+      await client.query(
+        `UPDATE tags SET name = $1 || substr(name, length($2) + 1)
+         WHERE user_id = $3 AND (name = $2 OR starts_with(name, $2 || '/'))`,
+        [name, oldName, userId]
+      );
+
+      // Moving under a new parent creates that parent if needed
+      await upsertTag(client, userId, name, source);
+    }
+
+    await client.query('COMMIT');
+  } catch (error) {
+    await client.query('ROLLBACK');
+    throw error;
+  } finally {
+    client.release();
+  }
+
+  // Notes show tag names, so they change along with the tags
+  publishEvent(userId, { type: 'tags.changed' });
+  publishEvent(userId, { type: 'notes.changed' });
+  return await getTag(userId, id);
+}
+
+// Moves every note (and version) tagged with the source onto the target, then deletes the source.
+// Tags nested under the source move under the target, merging into any that already exist there.
+export async function mergeTags(userId: number, sourceId: number, targetId: number): Promise<Tag | null> {
+  const client = await pool.connect();
+  try {
+    await client.query('BEGIN');
+
+    const tagsResult = await client.query(
+      'SELECT id, name FROM tags WHERE id = ANY($1) AND user_id = $2 FOR UPDATE',
+      [[sourceId, targetId], userId]
+    );
+    const source = tagsResult.rows.find(row => row.id === sourceId);
+    const target = tagsResult.rows.find(row => row.id === targetId);
+
+    if (!source || !target) {
+      await client.query('ROLLBACK');
+      return null;
+    }
+
+    // Parents first, so nested tags find their merged parent already in place
+    const subtreeResult = await client.query(
+      `SELECT id, name FROM tags
+       WHERE user_id = $1 AND (name = $2 OR starts_with(name, $2 || '/'))
+       ORDER BY length(name)`,
+      [userId, source.name]
+    );
+
+    for (const tag of subtreeResult.rows) {
+      const newName = target.name + tag.name.slice(source.name.length);
+      const existingResult = await client.query(
+        'SELECT id FROM tags WHERE user_id = $1 AND name = $2',
+        [userId, newName]
+      );
+      const existing = existingResult.rows[0];
+
+      if (!existing) {
+        await client.query('UPDATE tags SET name = $1 WHERE id = $2', [newName, tag.id]);
+        continue;
+      }
+
+      await client.query(
+        `INSERT INTO note_tags (note_id, tag_id)
+         SELECT note_id, $1 FROM note_tags WHERE tag_id = $2
+         ON CONFLICT DO NOTHING`,
+        [existing.id, tag.id]
+      );
+      await client.query(
+        `INSERT INTO note_version_tags (note_version_id, tag_id)
+         SELECT note_version_id, $1 FROM note_version_tags WHERE tag_id = $2
+         ON CONFLICT DO NOTHING`,
+        [existing.id, tag.id]
+      );
+
+      await client.query('DELETE FROM note_tags WHERE tag_id = $1', [tag.id]);
+      await client.query('DELETE FROM note_version_tags WHERE tag_id = $1', [tag.id]);
+      await client.query('DELETE FROM tags WHERE id = $1', [tag.id]);
+    }
+
+    await client.query('COMMIT');
+  } catch (error) {
+    await client.query('ROLLBACK');
+    throw error;
+  } finally {
+    client.release();
+  }
+
+  publishEvent(userId, { type: 'tags.changed' });
+  publishEvent(userId, { type: 'notes.changed' });
+  return await getTag(userId, targetId);
 }
 
-export async function deleteTag(id: number): Promise<boolean> {
+export async function deleteTag(userId: number, id: number): Promise<boolean> {
   const client = await pool.connect();
   try {
     await client.query('BEGIN');
 
+    const tagResult = await client.query(
+      'SELECT id, name FROM tags WHERE id = $1 AND user_id = $2',
+      [id, userId]
+    );
+
+    if (!tagResult.rows[0]) {
+      await client.query('ROLLBACK');
+      return false;
+    }
+
+    // Nested tags go with their parent
+    const subtreeResult = await client.query(
+      `SELECT id FROM tags WHERE user_id = $1 AND (name = $2 OR starts_with(name, $2 || '/'))`,
+      [userId, tagResult.rows[0].name]
+    );
+    const ids = subtreeResult.rows.map(row => row.id);
+
     // Remove all note associations
-    await client.query('DELETE FROM note_tags WHERE tag_id = $1', [id]);
-    await client.query('DELETE FROM note_version_tags WHERE tag_id = $1', [id]);
+    await client.query('DELETE FROM note_tags WHERE tag_id = ANY($1)', [ids]);
+    await client.query('DELETE FROM note_version_tags WHERE tag_id = ANY($1)', [ids]);
 
-    // Delete the tag
-    const result = await client.query('DELETE FROM tags WHERE id = $1', [id]);
+    // Delete the tags
+    const result = await client.query('DELETE FROM tags WHERE id = ANY($1)', [ids]);
 
     await client.query('COMMIT');
+    publishEvent(userId, { type: 'tags.changed' });
+    publishEvent(userId, { type: 'notes.changed' });
     return result.rowCount ? result.rowCount > 0 : false;
   } catch (error) {
     await client.query('ROLLBACK');
@@ -254,7 +900,7 @@ export async function deleteTag(id: number): Promise<boolean> {
 }
 
 // Version history functions
-export async function getNoteVersions(noteId: number): Promise<NoteVersion[]> {
+export async function getNoteVersions(userId: number, noteId: number): Promise<NoteVersion[]> {
   const result = await pool.query(
     `
     SELECT nv.*,
@@ -267,15 +913,16 @@ export async function getNoteVersions(noteId: number): Promise<NoteVersion[]> {
         '[]'::json
       ) as tags
     FROM note_versions nv
-    WHERE nv.note_id = $1
+    JOIN notes n ON nv.note_id = n.id
+    WHERE nv.note_id = $1 AND n.user_id = $2 AND n.deleted_at IS NULL
     ORDER BY nv.version ASC
     `,
-    [noteId]
+    [noteId, userId]
   );
   return result.rows;
 }
 
-export async function getNoteVersion(noteId: number, version: number): Promise<NoteVersion | null> {
+export async function getNoteVersion(userId: number, noteId: number, version: number): Promise<NoteVersion | null> {
   const result = await pool.query(
     `
     SELECT nv.*,
@@ -288,25 +935,124 @@ export async function getNoteVersion(noteId: number, version: number): Promise<N
         '[]'::json
       ) as tags
     FROM note_versions nv
-    WHERE nv.note_id = $1 AND nv.version = $2
+    JOIN notes n ON nv.note_id = n.id
+    WHERE nv.note_id = $1 AND nv.version = $2 AND n.user_id = $3 AND n.deleted_at IS NULL
     `,
-    [noteId, version]
+    [noteId, version, userId]
   );
   return result.rows[0] || null;
 }
 
+function toHunks(changes: ChangeObject<string>[]): DiffHunk[] {
+  return changes.map((change) => ({
+    type: change.added ? 'added' : change.removed ? 'removed' : 'equal',
+    value: change.value,
+  }));
+}
+
+export async function getNoteVersionDiff(userId: number, noteId: number, from: number, to: number): Promise<NoteVersionDiff | null> {
+  const [fromVersion, toVersion] = await Promise.all([
+    getNoteVersion(userId, noteId, from),
+    getNoteVersion(userId, noteId, to),
+  ]);
+
+  if (!fromVersion || !toVersion) return null;
+
+  const fromTags = fromVersion.tags || [];
+  const toTags = toVersion.tags || [];
+
+  return {
+    from,
+    to,
+    lines: toHunks(diffLines(fromVersion.content, toVersion.content)),
+    words: toHunks(diffWordsWithSpace(fromVersion.content, toVersion.content)),
+    tags: {
+      added: toTags.filter(tag => !fromTags.some(t => t.id === tag.id)),
+      removed: fromTags.filter(tag => !toTags.some(t => t.id === tag.id)),
+    },
+  };
+}
+
+export async function restoreNoteVersion(userId: number, noteId: number, version: number): Promise<Note | null> {
+  const client = await pool.connect();
+  try {
+    await client.query('BEGIN');
+
+    if (!(await lockOwnedNote(client, userId, noteId))) {
+      await client.query('ROLLBACK');
+      return null;
+    }
+
+    const oldVersionResult = await client.query(
+      'SELECT * FROM note_versions WHERE note_id = $1 AND version = $2',
+      [noteId, version]
+    );
+    const oldVersion = oldVersionResult.rows[0];
+
+    if (!oldVersion) {
+      await client.query('ROLLBACK');
+      return null;
+    }
+
+    // Get current max version
+    const versionResult = await client.query(
+      'SELECT COALESCE(MAX(version), 0) as max_version FROM note_versions WHERE note_id = $1',
+      [noteId]
+    );
+    const newVersion = versionResult.rows[0].max_version + 1;
+
+    // Restore note content
+    await client.query(
+      'UPDATE notes SET content = $1, revision = revision + 1 WHERE id = $2',
+      [oldVersion.content, noteId]
+    );
+
+    // Create new version from the old content
+    const newVersionResult = await client.query(
+      'INSERT INTO note_versions (note_id, version, content) VALUES ($1, $2, $3) RETURNING *',
+      [noteId, newVersion, oldVersion.content]
+    );
+
+    // Copy the old version's tags to the new version
+    await client.query(
+      `INSERT INTO note_version_tags (note_version_id, tag_id)
+       SELECT $1, tag_id FROM note_version_tags WHERE note_version_id = $2`,
+      [newVersionResult.rows[0].id, oldVersion.id]
+    );
+
+    // Restore the note's current tags to match
+    await client.query('DELETE FROM note_tags WHERE note_id = $1', [noteId]);
+    await client.query(
+      `INSERT INTO note_tags (note_id, tag_id)
+       SELECT $1, tag_id FROM note_version_tags WHERE note_version_id = $2`,
+      [noteId, oldVersion.id]
+    );
+
+    await client.query('COMMIT');
+
+    publishEvent(userId, { type: 'tags.changed' });
+    return await getUpdatedNote(userId, noteId);
+  } catch (error) {
+    await client.query('ROLLBACK');
+    throw error;
+  } finally {
+    client.release();
+  }
+}
+
 // Tag management functions
-export async function addTagToNote(noteId: number, tagName: string, source: 'Self'): Promise<Note | null> {
+export async function addTagToNote(userId: number, noteId: number, tagName: string, source: 'AI' | 'Self'): Promise<Note | null> {
   const client = await pool.connect();
   try {
     await client.query('BEGIN');
 
+    if (!(await lockOwnedNote(client, userId, noteId))) {
+      await client.query('ROLLBACK');
+      return null;
+    }
+
     // Insert or get tag
-    const tagResult = await client.query(
-      'INSERT INTO tags (name, source) VALUES ($1, $2) ON CONFLICT (name) DO UPDATE SET name = EXCLUDED.name RETURNING *',
-      [tagName.toLowerCase(), source]
-    );
-    const tag = tagResult.rows[0];
+    const tag = await upsertTag(client, userId, tagName, source);
 
     // Link note to tag
     await client.query(
@@ -316,7 +1062,8 @@ export async function addTagToNote(noteId: number, tagName: string, source: 'Sel
 
     await client.query('COMMIT');
 
-    return await getNoteById(noteId);
+    publishEvent(userId, { type: 'tags.changed' });
+    return await getUpdatedNote(userId, noteId);
   } catch (error) {
     await client.query('ROLLBACK');
     throw error;
@@ -325,10 +1072,166 @@ export async function addTagToNote(noteId: number, tagName: string, source: 'Sel
   }
 }
 
-export async function removeTagFromNote(noteId: number, tagId: number): Promise<Note | null> {
+export async function removeTagFromNote(userId: number, noteId: number, tagId: number): Promise<Note | null> {
   await pool.query(
-    'DELETE FROM note_tags WHERE note_id = $1 AND tag_id = $2',
-    [noteId, tagId]
+    `DELETE FROM note_tags
+     WHERE note_id = $1 AND tag_id = $2
+       AND note_id IN (SELECT id FROM notes WHERE user_id = $3)`,
+    [noteId, tagId, userId]
   );
-  return await getNoteById(noteId);
+  publishEvent(userId, { type: 'tags.changed' });
+  return await getUpdatedNote(userId, noteId);
+}
+
+/**
+ * Applies one action to many notes in a single transaction. Notes that don't exist,
+ * belong to someone else or are already in the trash are skipped; `updated` counts the rest.
+ */
+export async function bulkUpdateNotes(userId: number, request: BulkNoteRequest): Promise<BulkNoteResult> {
+  const client = await pool.connect();
+  try {
+    await client.query('BEGIN');
+
+    const owned = await client.query(
+      'SELECT id FROM notes WHERE id = ANY($1::int[]) AND user_id = $2 AND deleted_at IS NULL FOR UPDATE',
+      [request.noteIds, userId]
+    );
+    const noteIds: number[] = owned.rows.map(row => row.id);
+
+    if (noteIds.length > 0) {
+      const tagNames = [...new Set((request.tags || []).map(normalizeTagName))].filter(name => name.length > 0);
+
+      switch (request.action) {
+        case 'add-tags':
+          for (const name of tagNames) {
+            const tag = await upsertTag(client, userId, name, 'Self');
+            await client.query(
+              `INSERT INTO note_tags (note_id, tag_id)
+               SELECT note_id, $2 FROM unnest($1::int[]) AS note_id
+               ON CONFLICT DO NOTHING`,
+              [noteIds, tag.id]
+            );
+          }
+          break;
+        case 'remove-tags':
+          await client.query(
+            `DELETE FROM note_tags
+             WHERE note_id = ANY($1::int[])
+               AND tag_id IN (SELECT id FROM tags WHERE user_id = $2 AND name = ANY($3::text[]))`,
+            [noteIds, userId, tagNames]
+          );
+          break;
+        case 'delete':
+          await client.query(
+            'UPDATE notes SET deleted_at = CURRENT_TIMESTAMP WHERE id = ANY($1::int[])',
+            [noteIds]
+          );
+          break;
+      }
+    }
+
+    await client.query('COMMIT');
+
+    if (noteIds.length > 0) {
+      publishEvent(userId, { type: 'notes.changed' });
+      publishEvent(userId, { type: 'tags.changed' });
+    }
+    return { action: request.action, updated: noteIds.length };
+  } catch (error) {
+    await client.query('ROLLBACK');
+    throw error;
+  } finally {
+    client.release();
+  }
+}
+
+/**
+ * Creates imported notes with their original timestamps, tags and version history
+ * in a single transaction. With dryRun nothing is written and the report describes
+ * what would be created.
+ */
+export async function importNotes(userId: number, notes: ImportedNote[], skipped: ImportSkippedFile[], dryRun: boolean): Promise<ImportReport> {
+  const tagNames = [...new Set(
+    notes.flatMap(note => [...note.tags, ...note.versions.flatMap(version => version.tags)])
+  )];
+
+  // Parents of nested tags are created too, so count them in the report
+  const allTagNames = [...new Set(tagNames.flatMap(name => [...tagAncestors(name), name]))];
+
+  const existingResult = await pool.query(
+    'SELECT name FROM tags WHERE user_id = $1 AND name = ANY($2)',
+    [userId, allTagNames]
+  );
+  const existing = new Set(existingResult.rows.map(row => row.name));
+
+  const report: ImportReport = {
+    dry_run: dryRun,
+    notes_created: notes.length,
+    versions_created: notes.reduce((total, note) => total + note.versions.length, 0),
+    tags_created: allTagNames.filter(name => !existing.has(name)).sort(),
+    notes: notes.map(note => ({
+      source: note.source,
+      title: note.content.trim().split('\n')[0].replace(/^#+\s*/, '').slice(0, 80),
+      created_at: note.created_at.toISOString(),
+      tags: note.tags,
+      versions: note.versions.length,
+    })),
+    skipped,
+  };
+
+  if (dryRun || notes.length === 0) {
+    return report;
+  }
+
+  const client = await pool.connect();
+  try {
+    await client.query('BEGIN');
+
+    const tagIds = new Map<string, number>();
+    for (const name of tagNames) {
+      const tag = await upsertTag(client, userId, name, 'Self');
+      tagIds.set(name, tag.id);
+    }
+
+    for (const [index, note] of notes.entries()) {
+      const noteResult = await client.query(
+        'INSERT INTO notes (user_id, content, created_at, updated_at) VALUES ($1, $2, $3, $4) RETURNING id',
+        [userId, note.content, note.created_at, note.updated_at]
+      );
+      const noteId = noteResult.rows[0].id;
+      report.notes[index].id = noteId;
+
+      for (const name of note.tags) {
+        await client.query(
+          'INSERT INTO note_tags (note_id, tag_id) VALUES ($1, $2) ON CONFLICT DO NOTHING',
+          [noteId, tagIds.get(name)]
+        );
+      }
+
+      for (const [versionIndex, version] of note.versions.entries()) {
+        const versionResult = await client.query(
+          'INSERT INTO note_versions (note_id, version, content, created_at) VALUES ($1, $2, $3, $4) RETURNING id',
+          [noteId, versionIndex + 1, version.content, version.created_at]
+        );
+
+        for (const name of version.tags) {
+          await client.query(
+            'INSERT INTO note_version_tags (note_version_id, tag_id) VALUES ($1, $2) ON CONFLICT DO NOTHING',
+            [versionResult.rows[0].id, tagIds.get(name)]
+          );
+        }
+      }
+    }
+
+    await client.query('COMMIT');
+
+    publishEvent(userId, { type: 'notes.changed' });
+    publishEvent(userId, { type: 'tags.changed' });
+    return report;
+  } catch (error) {
+    await client.query('ROLLBACK');
+    throw error;
+  } finally {
+    client.release();
+  }
 }
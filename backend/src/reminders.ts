@@ -0,0 +1,187 @@
+import { createHmac } from 'crypto';
+import webpush from 'web-push';
+import { pool } from './db';
+import { publishEvent } from './events';
+import { claimDueReminders } from './notes';
+import { Note, PushSubscriptionRequest } from './types';
+
+const REMINDER_BATCH_SIZE = 100;
+const WEBHOOK_TIMEOUT_MS = 10000;
+// Push services drop the subscription for good with these statuses
+const EXPIRED_SUBSCRIPTION_STATUSES = [404, 410];
+
+// A way of telling the user a reminder is due. Failures are logged; reminders are not retried.
+export interface ReminderChannel {
+  name: string;
+  deliver(userId: number, note: Note): Promise<void>;
+}
+
+// First line of the note, short enough for a notification
+function reminderTitle(note: Note): string {
+  const firstLine = note.content.split('\n').find(line => line.trim()) || 'Reminder';
+  const title = firstLine.replace(/^#+\s*/, '').trim();
+  return title.length > 80 ? `${title.slice(0, 77)}...` : title;
+}
+
+/**
+ * Sends the reminder down the live update stream, where open clients show it as a browser
+ * notification. This is the stand-in for Web Push when no push service is configured, e.g. on a
+ * LAN without internet access, and only reaches clients that are open.
+ */
+export function createLiveEventChannel(): ReminderChannel {
+  return {
+    name: 'live',
+    async deliver(userId, note) {
+      publishEvent(userId, { type: 'reminder.due', note });
+    },
+  };
+}
+
+/**
+ * Web Push to every browser the user subscribed, so reminders arrive with the app closed.
+ * Needs a VAPID key pair (generate one with `npx web-push generate-vapid-keys`).
+ */
+export function createWebPushChannel(publicKey: string, privateKey: string, subject: string): ReminderChannel {
+  const vapidDetails = { subject, publicKey, privateKey };
+
+  return {
+    name: 'webpush',
+    async deliver(userId, note) {
+      const result = await pool.query(
+        'SELECT endpoint, p256dh, auth FROM push_subscriptions WHERE user_id = $1',
+        [userId]
+      );
+
+      const payload = JSON.stringify({
+        title: reminderTitle(note),
+        body: note.content.slice(0, 200),
+        noteId: note.id,
+      });
+
+      await Promise.all(result.rows.map(async row => {
+        try {
+          await webpush.sendNotification(
+            { endpoint: row.endpoint, keys: { p256dh: row.p256dh, auth: row.auth } },
+            payload,
+            { vapidDetails }
+          );
+        } catch (error) {
+          if (error instanceof webpush.WebPushError && EXPIRED_SUBSCRIPTION_STATUSES.includes(error.statusCode)) {
+            await pool.query('DELETE FROM push_subscriptions WHERE endpoint = $1', [row.endpoint]);
+            return;
+          }
+          throw error;
+        }
+      }));
+    },
+  };
+}
+
+/**
+ * POSTs each due reminder as JSON to a URL, e.g. a Home Assistant or n8n webhook.
+ * With a secret, the body is signed in an X-OmniRambles-Signature header (sha256=<hex HMAC>).
+ */
+export function createWebhookChannel(url: string, secret?: string): ReminderChannel {
+  return {
+    name: 'webhook',
+    async deliver(userId, note) {
+      const body = JSON.stringify({
+        event: 'reminder.due',
+        user_id: userId,
+        note: {
+          id: note.id,
+          title: reminderTitle(note),
+          content: note.content,
+          remind_at: note.remind_at,
+          tags: (note.tags || []).map(tag => tag.name),
+        },
+      });
+
+      const headers: Record<string, string> = { 'Content-Type': 'application/json' };
+      if (secret) {
+        headers['X-OmniRambles-Signature'] = `sha256=${createHmac('sha256', secret).update(body).digest('hex')}`;
+      }
+
+      const response = await fetch(url, {
+        method: 'POST',
+        headers,
+        body,
+        signal: AbortSignal.timeout(WEBHOOK_TIMEOUT_MS),
+      });
+
+      if (!response.ok) {
+        throw new Error(`Reminder webhook returned ${response.status}`);
+      }
+    },
+  };
+}
+
+// Web Push is enabled by a VAPID key pair; both halves must be set
+export function getVapidPublicKey(): string | null {
+  return process.env.VAPID_PUBLIC_KEY && process.env.VAPID_PRIVATE_KEY ? process.env.VAPID_PUBLIC_KEY : null;
+}
+
+const liveEventChannel = createLiveEventChannel();
+
+// Live events always; Web Push and the webhook when configured
+function configuredChannels(): ReminderChannel[] {
+  const channels = [liveEventChannel];
+
+  const publicKey = getVapidPublicKey();
+  if (publicKey) {
+    channels.push(createWebPushChannel(
+      publicKey,
+      process.env.VAPID_PRIVATE_KEY!,
+      process.env.VAPID_SUBJECT || 'mailto:admin@localhost'
+    ));
+  }
+
+  if (process.env.REMINDER_WEBHOOK_URL) {
+    channels.push(createWebhookChannel(process.env.REMINDER_WEBHOOK_URL, process.env.REMINDER_WEBHOOK_SECRET));
+  }
+
+  return channels;
+}
+
+// Sends every reminder that has come due through each channel; returns how many were sent
+export async function sendDueReminders(): Promise<number> {
+  const channels = configuredChannels();
+  let sent = 0;
+
+  while (true) {
+    const due = await claimDueReminders(REMINDER_BATCH_SIZE);
+
+    for (const { userId, note } of due) {
+      await Promise.all(channels.map(async channel => {
+        try {
+          await channel.deliver(userId, note);
+        } catch (error) {
+          console.error(`Reminder channel "${channel.name}" failed for note ${note.id}:`, error);
+        }
+      }));
+    }
+
+    sent += due.length;
+    if (due.length < REMINDER_BATCH_SIZE) return sent;
+  }
+}
+
+// Push subscriptions
+
+// A browser re-subscribing (or a different user on the same browser) replaces the old row
+export async function savePushSubscription(userId: number, subscription: PushSubscriptionRequest): Promise<void> {
+  await pool.query(
+    `INSERT INTO push_subscriptions (user_id, endpoint, p256dh, auth)
+     VALUES ($1, $2, $3, $4)
+     ON CONFLICT (endpoint) DO UPDATE SET user_id = $1, p256dh = $3, auth = $4`,
+    [userId, subscription.endpoint, subscription.keys.p256dh, subscription.keys.auth]
+  );
+}
+
+export async function deletePushSubscription(userId: number, endpoint: string): Promise<boolean> {
+  const result = await pool.query(
+    'DELETE FROM push_subscriptions WHERE user_id = $1 AND endpoint = $2',
+    [userId, endpoint]
+  );
+  return (result.rowCount || 0) > 0;
+}
@@ -0,0 +1,123 @@
+import { promises as fs } from 'fs';
+import path from 'path';
+import { Readable } from 'stream';
+import { S3Client, PutObjectCommand, GetObjectCommand, DeleteObjectCommand } from '@aws-sdk/client-s3';
+
+// Where attachment files live. Keys are generated by the backend ("<user>/<note>/<uuid>.<ext>"),
+// never taken from the client.
+export interface AttachmentStorage {
+  name: string;
+  put(key: string, data: Buffer, contentType: string): Promise<void>;
+  // Rejects if the file doesn't exist
+  get(key: string): Promise<Readable>;
+  // Deleting a file that doesn't exist is not an error
+  delete(key: string): Promise<void>;
+}
+
+export function createLocalStorage(directory: string): AttachmentStorage {
+  const root = path.resolve(directory);
+  const filePath = (key: string) => {
+    const resolved = path.resolve(root, key);
+    if (!resolved.startsWith(root + path.sep)) {
+      throw new Error(`Invalid attachment key: ${key}`);
+    }
+    return resolved;
+  };
+
+  return {
+    name: 'local',
+    async put(key, data) {
+      const file = filePath(key);
+      await fs.mkdir(path.dirname(file), { recursive: true });
+      await fs.writeFile(file, data);
+    },
+    async get(key) {
+      // Opening first makes a missing file reject here rather than fail mid-response
+      const handle = await fs.open(filePath(key), 'r');
+      return handle.createReadStream();
+    },
+    async delete(key) {
+      await fs.rm(filePath(key), { force: true });
+    },
+  };
+}
+
+export interface S3StorageOptions {
+  bucket: string;
+  region: string;
+  // Set for S3-compatible services such as MinIO; these usually need path-style URLs too
+  endpoint?: string;
+  forcePathStyle?: boolean;
+  accessKeyId?: string;
+  secretAccessKey?: string;
+}
+
+/**
+ * Amazon S3 or any S3-compatible object store (MinIO, Garage, Ceph...). Without explicit
+ * credentials the AWS SDK's usual environment/profile lookup applies.
+ */
+export function createS3Storage(options: S3StorageOptions): AttachmentStorage {
+  const client = new S3Client({
+    region: options.region,
+    endpoint: options.endpoint,
+    forcePathStyle: options.forcePathStyle,
+    credentials: options.accessKeyId && options.secretAccessKey
+      ? { accessKeyId: options.accessKeyId, secretAccessKey: options.secretAccessKey }
+      : undefined,
+  });
+
+  return {
+    name: 's3',
+    async put(key, data, contentType) {
+      await client.send(new PutObjectCommand({
+        Bucket: options.bucket,
+        Key: key,
+        Body: data,
+        ContentType: contentType,
+      }));
+    },
+    async get(key) {
+      const response = await client.send(new GetObjectCommand({ Bucket: options.bucket, Key: key }));
+      if (!response.Body) {
+        throw new Error(`Attachment ${key} has no content`);
+      }
+      return response.Body as Readable;
+    },
+    async delete(key) {
+      await client.send(new DeleteObjectCommand({ Bucket: options.bucket, Key: key }));
+    },
+  };
+}
+
+let configuredStorage: AttachmentStorage | null = null;
+
+// ATTACHMENT_STORAGE=s3 stores files in a bucket; anything else uses ATTACHMENTS_DIR on local disk
+export function getAttachmentStorage(): AttachmentStorage {
+  if (!configuredStorage) {
+    if (process.env.ATTACHMENT_STORAGE === 's3' && process.env.S3_BUCKET) {
+      configuredStorage = createS3Storage({
+        bucket: process.env.S3_BUCKET,
+        region: process.env.S3_REGION || 'us-east-1',
+        endpoint: process.env.S3_ENDPOINT,
+        forcePathStyle: Boolean(process.env.S3_ENDPOINT),
+        accessKeyId: process.env.S3_ACCESS_KEY_ID,
+        secretAccessKey: process.env.S3_SECRET_ACCESS_KEY,
+      });
+    } else {
+      configuredStorage = createLocalStorage(process.env.ATTACHMENTS_DIR || path.join(__dirname, '../uploads'));
+    }
+  }
+  return configuredStorage;
+}
+
+// Best effort: the database rows are already gone, so a file that can't be deleted is only logged
+export async function deleteStoredFiles(keys: string[]): Promise<void> {
+  const storage = getAttachmentStorage();
+  await Promise.all(keys.map(async key => {
+    try {
+      await storage.delete(key);
+    } catch (error) {
+      console.error(`Failed to delete attachment file ${key}:`, error);
+    }
+  }));
+}
@@ -0,0 +1,215 @@
+import { pool } from './db';
+import { normalizeTagName } from './notes';
+import { TagSuggestion } from './types';
+
+const SUGGESTION_LIMIT = 5;
+const REMOTE_TIMEOUT_MS = 15000;
+// tags.name is VARCHAR(100), so longer words can't be accepted as tags
+const MAX_TAG_LENGTH = 100;
+// Document frequencies are counted over the user's most recently edited notes only
+const DOCUMENT_FREQUENCY_WINDOW = 1000;
+
+// Common English words that never make useful tags
+const STOPWORDS = new Set(`
+  a about above after again against all also am an and any are as at be because been before being below
+  between both but by can could did do does doing down during each even few for from further get got had
+  has have having he her here hers herself him himself his how i if in into is it its itself just like
+  make many may me might more most much must my myself need new no nor not now of off on once only or
+  other our ours ourselves out over own really said same see she should so some still such than that the
+  their theirs them themselves then there these they thing things this those through to too under until
+  up use used very want was way we well were what when where which while who whom why will with would
+  yes yet you your yours yourself yourselves today tomorrow yesterday going gonna think know
+`.split(/\s+/).filter(Boolean));
+
+export interface TagSuggestionInput {
+  userId: number;
+  content: string;
+  // Every tag the user already has, so suggesters can prefer reusing them
+  existingTags: string[];
+  limit: number;
+}
+
+// A source of tag suggestions. Suggestions are only proposed; nothing is tagged until the user accepts.
+export interface TagSuggester {
+  name: string;
+  suggest(input: TagSuggestionInput): Promise<TagSuggestion[]>;
+}
+
+function tokenize(content: string): string[] {
+  return (content.toLowerCase().match(/[\p{L}\p{N}]+/gu) || [])
+    .filter(word => word.length >= 3 && word.length <= MAX_TAG_LENGTH && !/^\d+$/.test(word) && !STOPWORDS.has(word));
+}
+
+function byScore(a: TagSuggestion, b: TagSuggestion): number {
+  return b.score - a.score || a.name.localeCompare(b.name);
+}
+
+/**
+ * Deterministic suggester: existing tags whose leaf name appears in the note come first,
+ * then the note's most distinctive words by TF-IDF against the user's other notes.
+ */
+export function createKeywordSuggester(): TagSuggester {
+  return {
+    name: 'keyword',
+    async suggest({ userId, content, existingTags, limit }) {
+      const words = tokenize(content);
+      if (words.length === 0) return [];
+
+      const termCounts = new Map<string, number>();
+      words.forEach(word => termCounts.set(word, (termCounts.get(word) || 0) + 1));
+      const wordSet = new Set(words);
+
+      const suggestions: TagSuggestion[] = [];
+
+      // "work/project-alpha" is suggested when the note mentions both "project" and "alpha"
+      for (const tag of existingTags) {
+        const leafWords = tokenize(tag.split('/').pop() || tag);
+        if (leafWords.length === 0 || !leafWords.every(word => wordSet.has(word))) continue;
+
+        const hits = leafWords.reduce((sum, word) => sum + (termCounts.get(word) || 0), 0);
+        suggestions.push({ name: tag, score: 1 + hits / words.length, existing: true });
+      }
+
+      // Document frequencies come from the same tokens Postgres' 'simple' config produces
+      const terms = [...termCounts.keys()];
+      const [statsResult, countResult] = await Promise.all([
+        pool.query(
+          `SELECT word, ndoc FROM ts_stat(format(
+             'SELECT to_tsvector(''simple'', content) FROM notes
+              WHERE user_id = %s AND deleted_at IS NULL ORDER BY updated_at DESC LIMIT %s',
+             $1::int, $2::int
+           )) WHERE word = ANY($3::text[])`,
+          [userId, DOCUMENT_FREQUENCY_WINDOW, terms]
+        ),
+        pool.query(
+          'SELECT LEAST(COUNT(*), $2) AS count FROM notes WHERE user_id = $1 AND deleted_at IS NULL',
+          [userId, DOCUMENT_FREQUENCY_WINDOW]
+        ),
+      ]);
+
+      const documentCount = parseInt(countResult.rows[0].count);
+      const documentFrequency = new Map<string, number>(
+        statsResult.rows.map(row => [row.word as string, row.ndoc as number])
+      );
+
+      const keywordScores = terms.map(term => {
+        const idf = Math.log((documentCount + 1) / ((documentFrequency.get(term) || 0) + 1)) + 1;
+        return { term, score: (termCounts.get(term)! / words.length) * idf };
+      });
+      const maxScore = Math.max(...keywordScores.map(keyword => keyword.score));
+
+      const suggested = new Set(suggestions.map(suggestion => suggestion.name));
+      for (const { term, score } of keywordScores) {
+        if (suggested.has(term)) continue;
+        // Keywords stay below existing-tag matches, which score above 1
+        suggestions.push({ name: term, score: (score / maxScore) * 0.9, existing: existingTags.includes(term) });
+      }
+
+      return suggestions.sort(byScore).slice(0, limit);
+    },
+  };
+}
+
+/**
+ * Asks an OpenAI-compatible chat completions endpoint (llama.cpp server, Ollama, LM Studio, vLLM, ...)
+ * for tags. The model is told about the user's existing tags so it can reuse them.
+ */
+export function createOpenAICompatibleSuggester(baseUrl: string, model: string, apiKey?: string): TagSuggester {
+  return {
+    name: 'openai',
+    async suggest({ content, existingTags, limit }) {
+      const headers: Record<string, string> = { 'Content-Type': 'application/json' };
+      if (apiKey) headers.Authorization = `Bearer ${apiKey}`;
+
+      const response = await fetch(`${baseUrl.replace(/\/+$/, '')}/chat/completions`, {
+        method: 'POST',
+        headers,
+        signal: AbortSignal.timeout(REMOTE_TIMEOUT_MS),
+        body: JSON.stringify({
+          model,
+          temperature: 0,
+          messages: [
+            {
+              role: 'system',
+              content:
+                `Suggest up to ${limit} short, lowercase tags for the user's note. ` +
+                'Prefer reusing these existing tags when they fit: ' +
+                `${existingTags.slice(0, 200).join(', ') || '(none)'}. ` +
+                'Nested tags use "/" (e.g. work/projectx). Reply with only a JSON array of strings.',
+            },
+            { role: 'user', content },
+          ],
+        }),
+      });
+
+      if (!response.ok) {
+        throw new Error(`Tag suggestion endpoint returned ${response.status}`);
+      }
+
+      const data: any = await response.json();
+      const reply: string = data.choices?.[0]?.message?.content || '';
+      const match = reply.match(/\[[\s\S]*\]/);
+      if (!match) {
+        throw new Error('Tag suggestion endpoint did not return a JSON array');
+      }
+
+      const names = (JSON.parse(match[0]) as unknown[])
+        .filter((name): name is string => typeof name === 'string')
+        .map(normalizeTagName)
+        .filter(name => name.length > 0 && name.length <= MAX_TAG_LENGTH);
+
+      return [...new Set(names)].slice(0, limit).map((name, i, all) => ({
+        name,
+        score: 1 - i / all.length,
+        existing: existingTags.includes(name),
+      }));
+    },
+  };
+}
+
+const keywordSuggester = createKeywordSuggester();
+
+// TAG_SUGGESTER=openai switches to a local model; anything else uses the keyword suggester
+function configuredSuggester(): TagSuggester {
+  if (process.env.TAG_SUGGESTER === 'openai' && process.env.TAG_SUGGESTER_URL) {
+    return createOpenAICompatibleSuggester(
+      process.env.TAG_SUGGESTER_URL,
+      process.env.TAG_SUGGESTER_MODEL || 'llama3.2:3b',
+      process.env.TAG_SUGGESTER_API_KEY
+    );
+  }
+  return keywordSuggester;
+}
+
+/**
+ * Suggests tags for note content, leaving out tags already on the note.
+ * If the configured model is unreachable the keyword suggester is used instead.
+ */
+export async function suggestTags(userId: number, content: string, noteId?: number): Promise<TagSuggestion[]> {
+  const [tagsResult, noteTagsResult] = await Promise.all([
+    pool.query('SELECT name FROM tags WHERE user_id = $1 ORDER BY name', [userId]),
+    pool.query(
+      `SELECT t.name FROM note_tags nt
+       JOIN tags t ON nt.tag_id = t.id
+       JOIN notes n ON nt.note_id = n.id
+       WHERE nt.note_id = $1 AND n.user_id = $2`,
+      [noteId ?? null, userId]
+    ),
+  ]);
+
+  const existingTags: string[] = tagsResult.rows.map(row => row.name);
+  const onNote = new Set<string>(noteTagsResult.rows.map(row => row.name));
+  const input = { userId, content, existingTags, limit: SUGGESTION_LIMIT + onNote.size };
+
+  const suggester = configuredSuggester();
+  let suggestions: TagSuggestion[];
+  try {
+    suggestions = await suggester.suggest(input);
+  } catch (error) {
+    if (suggester === keywordSuggester) throw error;
+    console.error(`Tag suggester "${suggester.name}" failed, falling back to keywords:`, error);
+    suggestions = await keywordSuggester.suggest(input);
+  }
+
+  return suggestions.filter(suggestion => !onNote.has(suggestion.name)).slice(0, SUGGESTION_LIMIT);
+}
@@ -0,0 +1,301 @@
+import { execFile } from 'child_process';
+import { promises as fs } from 'fs';
+import os from 'os';
+import path from 'path';
+import { Readable } from 'stream';
+import { promisify } from 'util';
+import { pool } from './db';
+import { addAttachments, openAttachment, UploadedFile } from './attachments';
+import { createNote, getNoteById, getUpdatedNote, updateNote, deleteNote, purgeNote } from './notes';
+import { Note, TranscriptStatus } from './types';
+
+const execFileAsync = promisify(execFile);
+
+// Long recordings on a slow CPU take a while; this only stops a stuck engine
+const TRANSCRIPTION_TIMEOUT_MS = 30 * 60 * 1000;
+const MAX_TRANSCRIPT_ATTEMPTS = 3;
+const MAX_ERROR_LENGTH = 500;
+const NO_ENGINE_ERROR = 'No transcription engine is configured on the server';
+
+export interface TranscriptionInput {
+  audio: Buffer;
+  contentType: string;
+  filename: string;
+}
+
+// Turns a recording into text. Recordings are transcribed one at a time, so engines may use every core.
+export interface TranscriptionEngine {
+  name: string;
+  transcribe(input: TranscriptionInput): Promise<string>;
+}
+
+async function run(command: string, args: string[]): Promise<void> {
+  try {
+    await execFileAsync(command, args, { timeout: TRANSCRIPTION_TIMEOUT_MS, maxBuffer: 16 * 1024 * 1024 });
+  } catch (error: any) {
+    // The last line of stderr usually says what went wrong
+    const detail = error.killed
+      ? 'timed out'
+      : String(error.stderr || '').trim().split('\n').pop() || error.message;
+    throw new Error(`${path.basename(command)} failed: ${detail}`);
+  }
+}
+
+export interface WhisperCppOptions {
+  // The whisper.cpp CLI ("whisper-cli", called "main" in older builds)
+  binary: string;
+  // A ggml model file, e.g. ggml-base.en.bin
+  model: string;
+  ffmpeg: string;
+  // "auto" detects the spoken language
+  language: string;
+  threads?: number;
+}
+
+/**
+ * Runs whisper.cpp on the CPU, fully offline. Recordings are converted with ffmpeg first, since
+ * whisper.cpp only reads 16 kHz WAV and browsers record WebM or Ogg Opus.
+ */
+export function createWhisperCppEngine(options: WhisperCppOptions): TranscriptionEngine {
+  return {
+    name: 'whisper-cpp',
+    async transcribe({ audio, filename }) {
+      const directory = await fs.mkdtemp(path.join(os.tmpdir(), 'omnirambles-transcription-'));
+      try {
+        const extension = path.extname(filename).toLowerCase();
+        const input = path.join(directory, `recording${/^\.[a-z0-9]{1,10}$/.test(extension) ? extension : ''}`);
+        const wav = path.join(directory, 'recording.wav');
+        const output = path.join(directory, 'transcript');
+        await fs.writeFile(input, audio);
+
+        await run(options.ffmpeg, ['-nostdin', '-loglevel', 'error', '-y', '-i', input, '-ar', '16000', '-ac', '1', '-c:a', 'pcm_s16le', wav]);
+
+        const args = ['-m', options.model, '-f', wav, '-l', options.language, '-nt', '-np', '-otxt', '-of', output];
+        if (options.threads) args.push('-t', String(options.threads));
+        await run(options.binary, args);
+
+        // One line per segment, and segments often break mid-sentence
+        const text = await fs.readFile(`${output}.txt`, 'utf8');
+        return text.split('\n').map(line => line.trim()).filter(Boolean).join(' ');
+      } finally {
+        await fs.rm(directory, { recursive: true, force: true });
+      }
+    },
+  };
+}
+
+/**
+ * Sends the recording to an OpenAI-compatible /audio/transcriptions endpoint. Self-hosted servers
+ * such as faster-whisper-server, Speaches or LocalAI keep this offline too.
+ */
+export function createOpenAICompatibleEngine(baseUrl: string, model: string, language: string, apiKey?: string): TranscriptionEngine {
+  return {
+    name: 'openai',
+    async transcribe({ audio, contentType, filename }) {
+      const form = new FormData();
+      form.append('file', new Blob([audio], { type: contentType }), filename);
+      form.append('model', model);
+      form.append('response_format', 'json');
+      if (language !== 'auto') form.append('language', language);
+
+      const response = await fetch(`${baseUrl.replace(/\/+$/, '')}/audio/transcriptions`, {
+        method: 'POST',
+        headers: apiKey ? { Authorization: `Bearer ${apiKey}` } : undefined,
+        signal: AbortSignal.timeout(TRANSCRIPTION_TIMEOUT_MS),
+        body: form,
+      });
+
+      if (!response.ok) {
+        throw new Error(`Transcription endpoint returned ${response.status}`);
+      }
+
+      const data: any = await response.json();
+      if (typeof data.text !== 'string') {
+        throw new Error('Transcription endpoint did not return any text');
+      }
+      return data.text;
+    },
+  };
+}
+
+// TRANSCRIBER=whisper-cpp or TRANSCRIBER=openai; without one, voice notes keep just their recording
+function configuredEngine(): TranscriptionEngine | null {
+  const language = process.env.TRANSCRIPTION_LANGUAGE || 'auto';
+
+  if (process.env.TRANSCRIBER === 'whisper-cpp' && process.env.WHISPER_CPP_MODEL) {
+    return createWhisperCppEngine({
+      binary: process.env.WHISPER_CPP_BIN || 'whisper-cli',
+      model: process.env.WHISPER_CPP_MODEL,
+      ffmpeg: process.env.FFMPEG_BIN || 'ffmpeg',
+      language,
+      threads: process.env.WHISPER_CPP_THREADS ? parseInt(process.env.WHISPER_CPP_THREADS) : undefined,
+    });
+  }
+  if (process.env.TRANSCRIBER === 'openai' && process.env.TRANSCRIBER_URL) {
+    return createOpenAICompatibleEngine(
+      process.env.TRANSCRIBER_URL,
+      process.env.TRANSCRIBER_MODEL || 'whisper-1',
+      language,
+      process.env.TRANSCRIBER_API_KEY
+    );
+  }
+  return null;
+}
+
+async function setTranscriptStatus(userId: number, noteId: number, status: TranscriptStatus, error: string | null): Promise<void> {
+  await pool.query(
+    'UPDATE notes SET transcript_status = $1, transcript_error = $2 WHERE id = $3 AND user_id = $4',
+    [status, error && error.slice(0, MAX_ERROR_LENGTH), noteId, userId]
+  );
+  await getUpdatedNote(userId, noteId);
+}
+
+/**
+ * Queues an audio attachment for transcription into its note. Without a configured engine the note
+ * is marked failed straight away, so it doesn't look like it's waiting forever.
+ * Returns null if the note doesn't exist or is in the trash.
+ */
+export async function queueTranscription(userId: number, noteId: number, attachmentId: number): Promise<Note | null> {
+  const available = configuredEngine() !== null;
+  const result = await pool.query(
+    `UPDATE notes SET transcript_status = $1, transcript_error = $2, transcript_attachment_id = $3
+     WHERE id = $4 AND user_id = $5 AND deleted_at IS NULL`,
+    [available ? 'pending' : 'failed', available ? null : NO_ENGINE_ERROR, attachmentId, noteId, userId]
+  );
+  if (result.rowCount === 0) return null;
+
+  return await getUpdatedNote(userId, noteId);
+}
+
+// Creates an empty note holding the recording as an attachment and queues it for transcription
+export async function createVoiceNote(userId: number, recording: UploadedFile): Promise<Note> {
+  const note = await createNote(userId, { content: '' });
+  try {
+    const attachments = await addAttachments(userId, note.id, [recording]);
+    if (!attachments || attachments.length === 0) throw new Error('The recording could not be attached');
+
+    const queued = await queueTranscription(userId, note.id, attachments[0].id);
+    if (!queued) throw new Error('The voice note was moved to the trash before it was queued');
+    return queued;
+  } catch (error) {
+    // Don't leave an empty note behind, but report why the recording failed rather than why cleanup did
+    try {
+      await deleteNote(userId, note.id);
+      await purgeNote(userId, note.id);
+    } catch (cleanupError) {
+      console.error(`Failed to remove empty voice note ${note.id}:`, cleanupError);
+    }
+    throw error;
+  }
+}
+
+async function readAll(stream: Readable): Promise<Buffer> {
+  const chunks: Buffer[] = [];
+  for await (const chunk of stream) {
+    chunks.push(Buffer.from(chunk));
+  }
+  return Buffer.concat(chunks);
+}
+
+/**
+ * Adds the transcript to the note as a new version: it becomes the content of a note that is still
+ * empty, or goes below whatever the user wrote while it was being transcribed.
+ */
+async function addTranscriptToNote(userId: number, noteId: number, transcript: string): Promise<void> {
+  // baseRevision makes a save (or checklist tick) that lands in between a conflict, which is retried against the new content
+  for (let attempt = 0; attempt < MAX_TRANSCRIPT_ATTEMPTS; attempt++) {
+    const note = await getNoteById(userId, noteId);
+    if (!note) throw new Error('The note was moved to the trash before the transcript was ready');
+
+    const content = note.content.trim() ? `${note.content.trimEnd()}\n\n${transcript}` : transcript;
+    const result = await updateNote(userId, noteId, { content, baseRevision: note.revision });
+    if (!result) throw new Error('The note was moved to the trash before the transcript was ready');
+    if ('note' in result) return;
+  }
+  throw new Error('The note kept changing while the transcript was being saved');
+}
+
+async function claimPendingTranscription(): Promise<{ userId: number; noteId: number; attachmentId: number | null } | null> {
+  const result = await pool.query(
+    `UPDATE notes SET transcript_status = 'processing'
+     WHERE id = (
+       SELECT id FROM notes
+       WHERE transcript_status = 'pending' AND deleted_at IS NULL
+       ORDER BY id
+       LIMIT 1
+       FOR UPDATE SKIP LOCKED
+     )
+     RETURNING id, user_id, transcript_attachment_id`
+  );
+  if (result.rows.length === 0) return null;
+
+  const row = result.rows[0];
+  await getUpdatedNote(row.user_id, row.id);
+  return { userId: row.user_id, noteId: row.id, attachmentId: row.transcript_attachment_id };
+}
+
+async function hasPendingTranscription(): Promise<boolean> {
+  const result = await pool.query(
+    `SELECT 1 FROM notes WHERE transcript_status = 'pending' AND deleted_at IS NULL LIMIT 1`
+  );
+  return result.rows.length > 0;
+}
+
+async function transcribeNote(engine: TranscriptionEngine, userId: number, noteId: number, attachmentId: number | null): Promise<boolean> {
+  try {
+    const file = attachmentId !== null ? await openAttachment(userId, attachmentId) : null;
+    if (!file) throw new Error('The recording was deleted');
+
+    const audio = await readAll(file.stream);
+    const transcript = (await engine.transcribe({
+      audio,
+      contentType: file.contentType,
+      filename: file.attachment.filename,
+    })).trim();
+    if (!transcript) throw new Error('No speech was recognized in the recording');
+
+    await addTranscriptToNote(userId, noteId, transcript);
+    await setTranscriptStatus(userId, noteId, 'done', null);
+    return true;
+  } catch (error) {
+    console.error(`Transcription engine "${engine.name}" failed for note ${noteId}:`, error);
+    await setTranscriptStatus(userId, noteId, 'failed', error instanceof Error ? error.message : String(error));
+    return false;
+  }
+}
+
+let activeRun: Promise<number> | null = null;
+
+/**
+ * Transcribes queued recordings one after another until none are left, and returns how many were
+ * transcribed. Called on a timer and whenever a recording is queued; a call while a run is going
+ * joins that run, which picks up the newly queued recording too.
+ */
+export function transcribePending(): Promise<number> {
+  if (!activeRun) {
+    const engine = configuredEngine();
+    if (!engine) return Promise.resolve(0);
+
+    const run = (async () => {
+      let transcribed = 0;
+      for (let job = await claimPendingTranscription(); job; job = await claimPendingTranscription()) {
+        if (await transcribeNote(engine, job.userId, job.noteId, job.attachmentId)) transcribed++;
+      }
+      return transcribed;
+    })().finally(() => {
+      activeRun = null;
+    });
+
+    // A recording queued after the last claim came back empty joined a run that was already ending,
+    // so check again once the run is cleared and start another for it
+    activeRun = run.then(async transcribed =>
+      (await hasPendingTranscription()) ? transcribed + await transcribePending() : transcribed
+    );
+  }
+  return activeRun;
+}
+
+// A restart mid-transcription leaves notes marked processing; queue them again (assumes one backend instance)
+export async function requeueInterruptedTranscriptions(): Promise<void> {
+  await pool.query(`UPDATE notes SET transcript_status = 'pending' WHERE transcript_status = 'processing'`);
+}
@@ -1,19 +1,89 @@
+export interface User {
+  id: number;
+  username: string;
+  created_at: Date;
+}
+
+export interface AuthResponse {
+  token: string;
+  user: User;
+}
+
+export type TranscriptStatus = 'pending' | 'processing' | 'done' | 'failed';
+
 export interface Note {
   id: number;
   content: string;
   created_at: Date;
   updated_at: Date;
+  // Pinned notes are listed before all others; archived notes are hidden from the main list
+  pinned: boolean;
+  archived: boolean;
+  // When to remind the user about the note; reminded_at is set once the reminder has been sent
+  remind_at: Date | null;
+  reminded_at: Date | null;
+  // Voice notes: how far transcribing the recording (an audio attachment) into the content has got
+  transcript_status: TranscriptStatus | null;
+  transcript_error: string | null;
+  transcript_attachment_id: number | null;
+  // Changes with every edit and every checklist tick; current_version only changes with edits
+  revision: number;
   current_version?: number;
   tags?: Tag[];
+  attachments?: Attachment[];
+  // Only present on search results
+  rank?: number;
+  snippet?: string;
+  matched_history?: boolean;
+}
+
+// Pushed to a user's open clients when their notes or tags change.
+// The "changed" events mean several notes or tags changed and clients should reload them.
+// reminder.due carries a note whose reminder just fired, for clients to show a notification.
+export type SyncEvent =
+  | { type: 'note.created'; note: Note }
+  | { type: 'note.updated'; note: Note }
+  | { type: 'note.deleted'; noteId: number }
+  | { type: 'notes.changed' }
+  | { type: 'tags.changed' }
+  | { type: 'reminder.due'; note: Note };
+
+// A browser's Web Push subscription, as returned by PushSubscription.toJSON()
+export interface PushSubscriptionRequest {
+  endpoint: string;
+  keys: {
+    p256dh: string;
+    auth: string;
+  };
 }
 
 export interface Tag {
   id: number;
   name: string;
-  source: 'Self';
+  source: 'AI' | 'Self';
   note_count?: number;
 }
 
+// A proposed tag; `existing` is true when the user already has a tag with this name
+export interface TagSuggestion {
+  name: string;
+  score: number;
+  existing: boolean;
+}
+
+// A file attached to a note; `version` is the note version that was current when it was attached
+export interface Attachment {
+  id: number;
+  note_id: number;
+  version: number;
+  filename: string;
+  content_type: string;
+  size_bytes: number;
+  // Images get a small WebP preview at /api/attachments/:id/thumbnail
+  has_thumbnail: boolean;
+  created_at: Date;
+}
+
 export interface NoteVersion {
   id: number;
   note_id: number;
@@ -23,6 +93,22 @@ export interface NoteVersion {
   tags?: Tag[];
 }
 
+export interface DiffHunk {
+  type: 'equal' | 'added' | 'removed';
+  value: string;
+}
+
+export interface NoteVersionDiff {
+  from: number;
+  to: number;
+  lines: DiffHunk[];
+  words: DiffHunk[];
+  tags: {
+    added: Tag[];
+    removed: Tag[];
+  };
+}
+
 export interface CreateNoteRequest {
   content: string;
 }
@@ -30,12 +116,40 @@ export interface CreateNoteRequest {
 export interface UpdateNoteRequest {
   content?: string;
   tags?: Array<{ name: string; source: 'Self' }>;
+  // Version the client edited; the update is rejected if the note has moved past it
+  baseVersion?: number;
+  // Revision the client edited; unlike baseVersion this also catches checklist ticks made since
+  baseRevision?: number;
+}
+
+export interface SetChecklistItemRequest {
+  checked: boolean;
+  // Version and revision the client's line numbers come from; an edit since then can move the item
+  baseVersion?: number;
+  baseRevision?: number;
+}
+
+export interface TranscribeNoteRequest {
+  // An audio attachment on the note
+  attachmentId: number;
+}
+
+// Sent with a 409 when an update's base version or revision is stale
+export interface NoteConflict {
+  error: string;
+  base_version?: number;
+  current_version: number;
+  base_revision?: number;
+  current_revision: number;
+  note: Note;
 }
 
+export type UpdateNoteResult = { note: Note } | { conflict: NoteConflict };
+
 export interface AddTagRequest {
   noteId: number;
   tagName: string;
-  source: 'Self';
+  source: 'AI' | 'Self';
 }
 
 export interface RemoveTagRequest {
@@ -43,10 +157,169 @@ export interface RemoveTagRequest {
   tagId: number;
 }
 
+export type BulkNoteAction = 'add-tags' | 'remove-tags' | 'delete';
+
+export interface BulkNoteRequest {
+  action: BulkNoteAction;
+  noteIds: number[];
+  tags?: string[];
+}
+
+export interface BulkNoteResult {
+  action: BulkNoteAction;
+  updated: number;
+}
+
+export type TagMatchMode = 'and' | 'or';
+
+// Archived notes are excluded by default; 'only' lists just them, 'include' lists every note
+export type ArchivedFilter = 'exclude' | 'only' | 'include';
+
 export interface NoteFilters {
+  ids?: number[];
+  archived?: ArchivedFilter;
+  q?: string;
+  includeHistory?: boolean;
   tags?: string[];
+  tagMode?: TagMatchMode;
+  excludeTags?: string[];
+  untagged?: boolean;
+  createdFrom?: Date;
+  createdTo?: Date;
+  updatedFrom?: Date;
+  updatedTo?: Date;
+  moreThanVersions?: number;
   sortBy?: 'created_at' | 'updated_at';
   sortOrder?: 'asc' | 'desc';
   limit?: number;
-  offset?: number;
+  cursor?: NoteCursor;
+}
+
+// Position after the last note of a page: whether it's pinned, its sort value, id and (when searching) rank
+export interface NoteCursor {
+  pinned: boolean;
+  value: string;
+  id: number;
+  rank?: number;
+}
+
+export interface NotePage {
+  notes: Note[];
+  total: number;
+  next_cursor: string | null;
+}
+
+export interface ExportOptions {
+  format: 'json' | 'markdown';
+  includeHistory: boolean;
+  // Same tag filters as the notes list, so exporting the current filter gets the notes shown
+  tags?: string[];
+  tagMode?: TagMatchMode;
+  excludeTags?: string[];
+  noteIds?: number[];
+}
+
+// Shape of notes.json in a JSON export (also accepted by import)
+export interface ExportedNote {
+  id: number;
+  content: string;
+  created_at: string;
+  updated_at: string;
+  tags: string[];
+  versions?: Array<{
+    version: number;
+    content: string;
+    created_at: string;
+    tags: string[];
+  }>;
+}
+
+export interface ExportArchive {
+  format_version: number;
+  exported_at: string;
+  notes: ExportedNote[];
+}
+
+// A note parsed from an import file, before anything is written.
+// versions are oldest first and always include the current content as the last entry.
+export interface ImportedNote {
+  source: string;
+  content: string;
+  created_at: Date;
+  updated_at: Date;
+  tags: string[];
+  versions: Array<{
+    content: string;
+    created_at: Date;
+    tags: string[];
+  }>;
+}
+
+export interface ImportSkippedFile {
+  source: string;
+  reason: string;
+}
+
+export interface ImportParseResult {
+  notes: ImportedNote[];
+  skipped: ImportSkippedFile[];
+}
+
+export interface ImportReport {
+  dry_run: boolean;
+  notes_created: number;
+  versions_created: number;
+  tags_created: string[];
+  notes: Array<{
+    id?: number;
+    source: string;
+    title: string;
+    created_at: string;
+    tags: string[];
+    versions: number;
+  }>;
+  skipped: ImportSkippedFile[];
+}
+
+// Filters as stored in a saved view; JSON, so dates stay ISO strings
+export interface SavedViewFilters {
+  q?: string;
+  includeHistory?: boolean;
+  tags?: string[];
+  tagMode?: TagMatchMode;
+  excludeTags?: string[];
+  untagged?: boolean;
+  createdFrom?: string;
+  createdTo?: string;
+  updatedFrom?: string;
+  updatedTo?: string;
+  moreThanVersions?: number;
+  sortBy?: 'created_at' | 'updated_at';
+  sortOrder?: 'asc' | 'desc';
+}
+
+export interface SavedView {
+  id: number;
+  name: string;
+  filters: SavedViewFilters;
+  created_at: Date;
+}
+
+// Unsaved editor text. note_id is null for the note being written in the new-note form;
+// base_version is the note version the edit started from
+export interface NoteDraft {
+  note_id: number | null;
+  content: string;
+  base_version: number | null;
+  updated_at: Date;
+}
+
+export interface SaveDraftRequest {
+  content: string;
+  baseVersion?: number;
+}
+
+export interface SavedViewRequest {
+  name?: string;
+  filters?: SavedViewFilters;
 }
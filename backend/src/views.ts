@@ -0,0 +1,80 @@
+import { pool } from './db';
+import { SavedView, SavedViewFilters } from './types';
+
+const STRING_LIST_KEYS = ['tags', 'excludeTags'] as const;
+const DATE_KEYS = ['createdFrom', 'createdTo', 'updatedFrom', 'updatedTo'] as const;
+
+// Keeps only known filter fields with the right types, so stored views always load cleanly
+export function sanitizeViewFilters(input: any): SavedViewFilters {
+  const filters: SavedViewFilters = {};
+  if (!input || typeof input !== 'object') return filters;
+
+  if (typeof input.q === 'string' && input.q.trim()) filters.q = input.q.trim();
+  if (input.includeHistory === true) filters.includeHistory = true;
+  if (input.untagged === true) filters.untagged = true;
+
+  for (const key of STRING_LIST_KEYS) {
+    if (Array.isArray(input[key])) {
+      const names = input[key].filter((name: unknown) => typeof name === 'string' && name.length > 0);
+      if (names.length > 0) filters[key] = names;
+    }
+  }
+
+  for (const key of DATE_KEYS) {
+    if (typeof input[key] === 'string' && !isNaN(Date.parse(input[key]))) {
+      filters[key] = input[key];
+    }
+  }
+
+  if (input.tagMode === 'and' || input.tagMode === 'or') filters.tagMode = input.tagMode;
+  if (Number.isInteger(input.moreThanVersions) && input.moreThanVersions >= 0) {
+    filters.moreThanVersions = input.moreThanVersions;
+  }
+  if (input.sortBy === 'created_at' || input.sortBy === 'updated_at') filters.sortBy = input.sortBy;
+  if (input.sortOrder === 'asc' || input.sortOrder === 'desc') filters.sortOrder = input.sortOrder;
+
+  return filters;
+}
+
+export async function getSavedViews(userId: number): Promise<SavedView[]> {
+  const result = await pool.query(
+    'SELECT id, name, filters, created_at FROM saved_views WHERE user_id = $1 ORDER BY name',
+    [userId]
+  );
+  return result.rows;
+}
+
+// Returns null if the user already has a view with this name
+export async function createSavedView(userId: number, name: string, filters: SavedViewFilters): Promise<SavedView | null> {
+  const result = await pool.query(
+    `INSERT INTO saved_views (user_id, name, filters) VALUES ($1, $2, $3)
+     ON CONFLICT (user_id, name) DO NOTHING
+     RETURNING id, name, filters, created_at`,
+    [userId, name, filters]
+  );
+  return result.rows[0] || null;
+}
+
+export async function updateSavedView(
+  userId: number,
+  id: number,
+  name: string | undefined,
+  filters: SavedViewFilters | undefined
+): Promise<SavedView | null> {
+  const result = await pool.query(
+    `UPDATE saved_views
+     SET name = COALESCE($3, name), filters = COALESCE($4, filters)
+     WHERE id = $1 AND user_id = $2
+     RETURNING id, name, filters, created_at`,
+    [id, userId, name ?? null, filters ?? null]
+  );
+  return result.rows[0] || null;
+}
+
+export async function deleteSavedView(userId: number, id: number): Promise<boolean> {
+  const result = await pool.query(
+    'DELETE FROM saved_views WHERE id = $1 AND user_id = $2',
+    [id, userId]
+  );
+  return (result.rowCount || 0) > 0;
+}
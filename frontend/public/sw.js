@@ -0,0 +1,90 @@
+// Service worker: keeps the app shell available offline.
+// Note data is cached by the app itself in IndexedDB, so /api requests always go to the network.
+
+// Written by the build (see vite.config.ts) with the hashed JS and CSS; the dev server has none
+try {
+  importScripts('/precache-manifest.js');
+} catch (err) {
+  self.__PRECACHE_MANIFEST = { version: 'dev', urls: [] };
+}
+
+const CACHE_NAME = `omnirambles-shell-${self.__PRECACHE_MANIFEST.version}`;
+const SHELL_URLS = ['/', '/manifest.webmanifest', '/icon.svg', ...self.__PRECACHE_MANIFEST.urls];
+
+self.addEventListener('install', (event) => {
+  event.waitUntil(
+    caches.open(CACHE_NAME)
+      .then((cache) => cache.addAll(SHELL_URLS))
+      .then(() => self.skipWaiting())
+  );
+});
+
+self.addEventListener('activate', (event) => {
+  event.waitUntil(
+    caches.keys()
+      .then((keys) => Promise.all(keys.filter((key) => key !== CACHE_NAME).map((key) => caches.delete(key))))
+      .then(() => self.clients.claim())
+  );
+});
+
+self.addEventListener('fetch', (event) => {
+  const { request } = event;
+  const url = new URL(request.url);
+
+  if (request.method !== 'GET' || url.origin !== self.location.origin || url.pathname.startsWith('/api/')) {
+    return;
+  }
+
+  // Pages: network first so deploys show up, falling back to the cached shell offline
+  if (request.mode === 'navigate') {
+    event.respondWith(
+      fetch(request)
+        .then((response) => {
+          if (response.ok) {
+            const copy = response.clone();
+            caches.open(CACHE_NAME).then((cache) => cache.put('/', copy));
+          }
+          return response;
+        })
+        .catch(() => caches.match('/'))
+    );
+    return;
+  }
+
+  // Built assets have content hashes in their names, so a cached copy is always current
+  event.respondWith(
+    caches.match(request).then((cached) => {
+      if (cached) return cached;
+
+      return fetch(request).then((response) => {
+        if (response.ok && url.pathname.startsWith('/assets/')) {
+          const copy = response.clone();
+          caches.open(CACHE_NAME).then((cache) => cache.put(request, copy));
+        }
+        return response;
+      });
+    })
+  );
+});
+
+// Reminders sent by the server through Web Push while the app is closed
+self.addEventListener('push', (event) => {
+  const data = event.data ? event.data.json() : {};
+  event.waitUntil(
+    self.registration.showNotification(data.title || 'Reminder', {
+      body: data.body,
+      tag: `reminder-${data.noteId}`,
+      data: { noteId: data.noteId },
+    })
+  );
+});
+
+self.addEventListener('notificationclick', (event) => {
+  event.notification.close();
+  event.waitUntil(
+    self.clients.matchAll({ type: 'window', includeUncontrolled: true }).then((windows) => {
+      if (windows.length > 0) return windows[0].focus();
+      return self.clients.openWindow('/');
+    })
+  );
+});
@@ -1,16 +1,67 @@
-import { useState, useEffect } from 'react';
+import { useState, useEffect, useRef } from 'react';
 import { NoteForm } from './components/NoteForm';
 import { NoteCard } from './components/NoteCard';
 import { NoteEditor } from './components/NoteEditor';
 import { FilterControls } from './components/FilterControls';
 import { TagSelector } from './components/TagSelector';
 import { TagManager } from './components/TagManager';
-import { Note, Tag, NoteFilters } from './types';
-import { createNote, getNotes, deleteNote, getAllTags, addTagToNote } from './api';
+import { SearchBar } from './components/SearchBar';
+import { TrashView } from './components/TrashView';
+import { UpcomingView } from './components/UpcomingView';
+import { LoginScreen } from './components/LoginScreen';
+import { ExportDialog } from './components/ExportDialog';
+import { ImportDialog } from './components/ImportDialog';
+import { BulkActionBar } from './components/BulkActionBar';
+import { Note, Tag, TagSuggestion, NoteFilters, User, SyncEvent, OfflineConflict, OfflineMutation, DroppedOfflineChange } from './types';
+import { createNote, createVoiceNote, getNotes, deleteNote, setNotePinned, setNoteArchived, setChecklistItem, getNoteConflict, bulkUpdateNotes, getAllTags, addTagToNote, suggestTags, getAuthToken, getCurrentUser, logout, setUnauthorizedHandler, subscribeToEvents, replayOfflineChanges } from './api';
+import { countQueuedMutations } from './offline';
+import { setChecklistItemChecked } from './checklist';
+import { showReminderNotification, disableReminderNotifications } from './notifications';
+import { Recording } from './voice';
 import './App.css';
 
+type NoteView = 'notes' | 'archived' | 'upcoming' | 'trash';
+type BulkTagAction = 'add-tags' | 'remove-tags';
+
+const SYNC_RELOAD_DELAY_MS = 300;
+
+// Anything beyond sorting narrows the list, so pushed notes can't just be slotted in
+const hasActiveFilters = ({ sortBy, sortOrder, tagMode, ...rest }: NoteFilters): boolean =>
+  Object.values(rest).some((value) =>
+    Array.isArray(value) ? value.length > 0 : value !== undefined && value !== false && value !== ''
+  );
+
+// New or just-edited notes go to the top of the list, but below any pinned notes
+const placeFirst = (notes: Note[], note: Note): Note[] => {
+  const others = notes.filter((other) => other.id !== note.id);
+  const position = note.pinned ? 0 : others.findIndex((other) => !other.pinned);
+  return position === -1
+    ? [...others, note]
+    : [...others.slice(0, position), note, ...others.slice(position)];
+};
+
+// Quotes the start of discarded text so the user can still copy it from the banner
+const describeOfflineChange = (mutation: OfflineMutation): string => {
+  const excerpt = (content: string) => (content.length > 80 ? `${content.slice(0, 80)}…` : content);
+  switch (mutation.type) {
+    case 'create':
+      return `New note "${excerpt(mutation.content)}"`;
+    case 'update':
+      return `Edit "${excerpt(mutation.content)}"`;
+    case 'add-tag':
+      return `Adding the tag "${mutation.tagName}"`;
+    case 'remove-tag':
+      return 'Removing a tag';
+  }
+};
+
 function App() {
+  const [user, setUser] = useState<User | null>(null);
+  const [isCheckingAuth, setIsCheckingAuth] = useState(true);
   const [notes, setNotes] = useState<Note[]>([]);
+  const [totalNotes, setTotalNotes] = useState(0);
+  const [nextCursor, setNextCursor] = useState<string | null>(null);
+  const [isLoadingMore, setIsLoadingMore] = useState(false);
   const [tags, setTags] = useState<Tag[]>([]);
   const [filters, setFilters] = useState<NoteFilters>({
     sortBy: 'created_at',
@@ -19,27 +70,224 @@ function App() {
   const [isLoading, setIsLoading] = useState(false);
   const [error, setError] = useState<string | null>(null);
   const [editingNote, setEditingNote] = useState<Note | null>(null);
-  const [newNoteForTagging, setNewNoteForTagging] = useState<Note | null>(null);
+  const [noteForTagging, setNoteForTagging] = useState<Note | null>(null);
+  const [tagSuggestions, setTagSuggestions] = useState<TagSuggestion[]>([]);
   const [showNoteEntry, setShowNoteEntry] = useState(false);
   const [isTyping, setIsTyping] = useState(false);
+  const [view, setView] = useState<NoteView>('notes');
+  const [showExport, setShowExport] = useState(false);
+  const [showImport, setShowImport] = useState(false);
+  const [isSelecting, setIsSelecting] = useState(false);
+  const [selectedNoteIds, setSelectedNoteIds] = useState<number[]>([]);
+  const [bulkTagAction, setBulkTagAction] = useState<BulkTagAction | null>(null);
+  const [exportNoteIds, setExportNoteIds] = useState<number[] | undefined>(undefined);
+  const [isOffline, setIsOffline] = useState(!navigator.onLine);
+  const [pendingChanges, setPendingChanges] = useState(0);
+  const [syncConflicts, setSyncConflicts] = useState<OfflineConflict[]>([]);
+  const [droppedChanges, setDroppedChanges] = useState<DroppedOfflineChange[]>([]);
+  const [reminderRefreshKey, setReminderRefreshKey] = useState(0);
+  const [resolvingConflict, setResolvingConflict] = useState<OfflineConflict | null>(null);
+  const loadMoreRef = useRef<HTMLDivElement>(null);
+  // Lets a slow "load more" response notice that the list was reloaded meanwhile
+  const nextCursorRef = useRef<string | null>(null);
+  // The event stream outlives renders, so it calls whichever handler is current
+  const syncHandlerRef = useRef<(event: SyncEvent) => void>(() => {});
+  const syncReloadTimerRef = useRef<number | undefined>(undefined);
+  const syncOfflineRef = useRef<() => void>(() => {});
+
+  // Restore the session from a stored token, and drop back to login if it expires
+  useEffect(() => {
+    setUnauthorizedHandler(() => setUser(null));
+
+    if (getAuthToken()) {
+      getCurrentUser()
+        .then(setUser)
+        .catch((err) => console.error('Error restoring session:', err))
+        .finally(() => setIsCheckingAuth(false));
+    } else {
+      setIsCheckingAuth(false);
+    }
+
+    return () => setUnauthorizedHandler(null);
+  }, []);
 
   // Load notes and tags
   useEffect(() => {
+    if (!user) return;
     loadNotes();
     loadTags();
-  }, [filters]);
+  }, [filters, view, user]);
+
+  // Live updates from the user's other clients
+  useEffect(() => {
+    if (!user) return;
+
+    // Events missed while disconnected are covered by the reload that follows replaying
+    const unsubscribe = subscribeToEvents(
+      (event) => syncHandlerRef.current(event),
+      () => syncOfflineRef.current()
+    );
+
+    return () => {
+      unsubscribe();
+      window.clearTimeout(syncReloadTimerRef.current);
+    };
+  }, [user]);
+
+  // Changes made offline are sent as soon as the browser reports a connection again
+  useEffect(() => {
+    if (!user) return;
+
+    const handleOnline = () => syncOfflineRef.current();
+    const handleOffline = () => setIsOffline(true);
+
+    syncOfflineRef.current();
+    window.addEventListener('online', handleOnline);
+    window.addEventListener('offline', handleOffline);
+    return () => {
+      window.removeEventListener('online', handleOnline);
+      window.removeEventListener('offline', handleOffline);
+    };
+  }, [user]);
+
+  // Infinite scroll: fetch the next page when the sentinel below the grid comes into view
+  useEffect(() => {
+    const sentinel = loadMoreRef.current;
+    if (!sentinel || !nextCursor) return;
+
+    const observer = new IntersectionObserver((entries) => {
+      if (entries[0].isIntersecting) {
+        loadMoreNotes();
+      }
+    }, { rootMargin: '400px' });
+
+    observer.observe(sentinel);
+    return () => observer.disconnect();
+  }, [nextCursor, isLoadingMore]);
+
+  // The Archived tab lists the same way as Notes, but only archived notes
+  const listFilters = (): NoteFilters => (view === 'archived' ? { ...filters, archived: 'only' } : filters);
 
   const loadNotes = async () => {
     try {
       setError(null);
-      const fetchedNotes = await getNotes(filters);
-      setNotes(fetchedNotes);
+      const page = await getNotes(listFilters());
+      setNotes(page.notes);
+      setTotalNotes(page.total);
+      setNextCursor(page.next_cursor);
+      nextCursorRef.current = page.next_cursor;
+      setIsOffline(Boolean(page.offline));
+      // Offline edits don't come back as events, so an open editor picks up the reloaded note here
+      setEditingNote((current) => (current && page.notes.find((note) => note.id === current.id)) || current);
+      setPendingChanges(await countQueuedMutations());
     } catch (err) {
       console.error('Error loading notes:', err);
       setError('Failed to load notes. Make sure the backend is running.');
     }
   };
 
+  const loadMoreNotes = async () => {
+    const cursor = nextCursorRef.current;
+    if (!cursor || isLoadingMore) return;
+
+    setIsLoadingMore(true);
+    try {
+      const page = await getNotes(listFilters(), cursor);
+      if (nextCursorRef.current !== cursor) return;
+
+      setNotes((previous) => [...previous, ...page.notes]);
+      setTotalNotes(page.total);
+      setNextCursor(page.next_cursor);
+      nextCursorRef.current = page.next_cursor;
+    } catch (err) {
+      console.error('Error loading more notes:', err);
+      setError('Failed to load more notes.');
+    } finally {
+      setIsLoadingMore(false);
+    }
+  };
+
+  // Bursts of events (e.g. a bulk edit) turn into a single reload
+  const scheduleSyncReload = () => {
+    window.clearTimeout(syncReloadTimerRef.current);
+    syncReloadTimerRef.current = window.setTimeout(loadNotes, SYNC_RELOAD_DELAY_MS);
+  };
+
+  // Our own changes come back as events too; applying them again is harmless
+  syncHandlerRef.current = (event: SyncEvent) => {
+    const isPlainListing = !hasActiveFilters(listFilters());
+    if (event.type !== 'tags.changed') {
+      setReminderRefreshKey((key) => key + 1);
+    }
+
+    switch (event.type) {
+      case 'note.created':
+        if (isPlainListing && filters.sortOrder === 'desc') {
+          if (!notes.some((note) => note.id === event.note.id)) {
+            setNotes((previous) => placeFirst(previous, event.note));
+            setTotalNotes((total) => total + 1);
+          }
+        } else {
+          scheduleSyncReload();
+        }
+        break;
+      case 'note.updated': {
+        // Pinning or archiving moves the note between sections or lists
+        const listed = notes.find((note) => note.id === event.note.id);
+        const movedSection = listed && (
+          Boolean(listed.pinned) !== Boolean(event.note.pinned) ||
+          Boolean(listed.archived) !== Boolean(event.note.archived)
+        );
+
+        if (movedSection) {
+          scheduleSyncReload();
+        } else if (isPlainListing && filters.sortBy === 'created_at') {
+          setNotes((previous) => previous.map((note) => (note.id === event.note.id ? event.note : note)));
+        } else if (isPlainListing && filters.sortOrder === 'desc') {
+          setNotes((previous) => placeFirst(previous, event.note));
+        } else {
+          scheduleSyncReload();
+        }
+        setEditingNote((current) => (current?.id === event.note.id ? event.note : current));
+        break;
+      }
+      case 'note.deleted':
+        if (notes.some((note) => note.id === event.noteId)) {
+          setNotes((previous) => previous.filter((note) => note.id !== event.noteId));
+          setTotalNotes((total) => total - 1);
+        }
+        break;
+      case 'notes.changed':
+        scheduleSyncReload();
+        break;
+      case 'tags.changed':
+        loadTags();
+        break;
+      case 'reminder.due':
+        // The note itself arrives separately as note.updated
+        showReminderNotification(event.note).catch((err) => console.error('Error showing reminder:', err));
+        break;
+    }
+  };
+
+  // Replays offline changes, then reloads so temporary notes are swapped for the synced ones
+  const syncOfflineChanges = async () => {
+    try {
+      const { conflicts, dropped } = await replayOfflineChanges();
+      if (conflicts.length > 0) {
+        setSyncConflicts((previous) => [...previous, ...conflicts]);
+      }
+      if (dropped.length > 0) {
+        setDroppedChanges((previous) => [...previous, ...dropped]);
+      }
+    } catch (err) {
+      console.error('Error syncing offline changes:', err);
+    }
+    await loadNotes();
+    await loadTags();
+  };
+  syncOfflineRef.current = syncOfflineChanges;
+
   const loadTags = async () => {
     try {
       const fetchedTags = await getAllTags();
@@ -49,7 +297,7 @@ function App() {
     }
   };
 
-  const handleCreateNote = async (content: string) => {
+  const handleCreateNote = async (content: string): Promise<boolean> => {
     setIsLoading(true);
     setError(null);
     try {
@@ -57,13 +305,38 @@ function App() {
       const newNote = await createNote(content);
       await loadNotes();
       await loadTags();
-      // Show tag selector for the newly created note
-      setNewNoteForTagging(newNote);
+      // Show tag selector for the newly created note; suggestions fill in when ready
+      setTagSuggestions([]);
+      setNoteForTagging(newNote);
+      suggestTags(newNote.content, newNote.id)
+        .then(setTagSuggestions)
+        .catch((err) => console.error('Error suggesting tags:', err));
       setIsTyping(false);
       setShowNoteEntry(false);
+      return true;
     } catch (err) {
       console.error('Error creating note:', err);
       setError('Failed to create note. Make sure the backend is running.');
+      return false;
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  // The note starts out empty and fills in once the server has transcribed the recording
+  const handleCreateVoiceNote = async (recording: Recording): Promise<boolean> => {
+    setIsLoading(true);
+    setError(null);
+    try {
+      await createVoiceNote(recording.audio, recording.filename);
+      await loadNotes();
+      setIsTyping(false);
+      setShowNoteEntry(false);
+      return true;
+    } catch (err) {
+      console.error('Error creating voice note:', err);
+      setError('Failed to save the recording. Make sure the backend is running.');
+      return false;
     } finally {
       setIsLoading(false);
     }
@@ -83,18 +356,23 @@ function App() {
     setIsTyping(true);
   };
 
-  const handleSaveTags = async (selectedTags: string[], newTags: string[]) => {
-    if (!newNoteForTagging) return;
+  const handleSaveTags = async (selectedTags: string[], newTags: string[], acceptedSuggestions: string[]) => {
+    if (!noteForTagging) return;
 
     try {
       // Add all selected existing tags
       for (const tagName of selectedTags) {
-        await addTagToNote(newNoteForTagging.id, tagName, 'Self');
+        await addTagToNote(noteForTagging.id, tagName, 'Self');
       }
 
       // Add all new tags
       for (const tagName of newTags) {
-        await addTagToNote(newNoteForTagging.id, tagName, 'Self');
+        await addTagToNote(noteForTagging.id, tagName, 'Self');
+      }
+
+      // Accepted suggestions are recorded as AI tags
+      for (const tagName of acceptedSuggestions) {
+        await addTagToNote(noteForTagging.id, tagName, 'AI');
       }
 
       // Reload notes and tags
@@ -106,19 +384,120 @@ function App() {
     }
   };
 
+  // Edits propose tags too, but the selector only opens when there is something new to suggest
+  const handleNoteSaved = (note: Note) => {
+    if (note.id < 0) return;
+
+    suggestTags(note.content, note.id)
+      .then((suggestions) => {
+        if (suggestions.length === 0) return;
+        setTagSuggestions(suggestions);
+        setNoteForTagging(note);
+      })
+      .catch((err) => console.error('Error suggesting tags:', err));
+  };
+
   const handleCloseTagSelector = () => {
-    setNewNoteForTagging(null);
+    setNoteForTagging(null);
+    setTagSuggestions([]);
   };
 
+  // Deleted notes go to the trash, so no confirmation is needed here
   const handleDeleteNote = async (id: number) => {
-    if (confirm('Are you sure you want to delete this note?')) {
-      try {
-        await deleteNote(id);
-        await loadNotes();
-      } catch (err) {
-        console.error('Error deleting note:', err);
-        setError('Failed to delete note.');
+    try {
+      await deleteNote(id);
+      await loadNotes();
+      await loadTags();
+    } catch (err) {
+      console.error('Error deleting note:', err);
+      setError('Failed to delete note.');
+    }
+  };
+
+  const handleTogglePin = async (note: Note) => {
+    try {
+      await setNotePinned(note.id, !note.pinned);
+      await loadNotes();
+    } catch (err) {
+      console.error('Error pinning note:', err);
+      setError('Failed to pin note.');
+    }
+  };
+
+  const handleToggleArchive = async (note: Note) => {
+    try {
+      await setNoteArchived(note.id, !note.archived);
+      await loadNotes();
+    } catch (err) {
+      console.error('Error archiving note:', err);
+      setError('Failed to archive note.');
+    }
+  };
+
+  // Ticked straight away on the card; a failed or conflicting toggle reloads the real state
+  const handleToggleChecklistItem = async (note: Note, line: number, checked: boolean) => {
+    const content = setChecklistItemChecked(note.content, line, checked);
+    if (content === null) return;
+
+    setNotes((previous) => previous.map((listed) => (listed.id === note.id ? { ...listed, content } : listed)));
+    try {
+      const updated = await setChecklistItem(note.id, line, checked, note.revision);
+      setNotes((previous) => previous.map((listed) => (listed.id === updated.id ? updated : listed)));
+    } catch (err) {
+      if (getNoteConflict(err)) {
+        setError('That note was edited elsewhere; its checklist has been reloaded.');
+      } else {
+        console.error('Error updating checklist:', err);
+        setError('Failed to update checklist.');
       }
+      await loadNotes();
+    }
+  };
+
+  const exitSelection = () => {
+    setIsSelecting(false);
+    setSelectedNoteIds([]);
+  };
+
+  const toggleNoteSelected = (id: number) => {
+    setSelectedNoteIds((previous) =>
+      previous.includes(id) ? previous.filter((noteId) => noteId !== id) : [...previous, id]
+    );
+  };
+
+  // Selection can outlive filter changes, so only tags on loaded selected notes are offered for removal
+  const selectedNoteTags = (): Tag[] => {
+    const names = new Set(
+      notes
+        .filter((note) => selectedNoteIds.includes(note.id))
+        .flatMap((note) => (note.tags || []).map((tag) => tag.name))
+    );
+    return tags.filter((tag) => names.has(tag.name));
+  };
+
+  const handleBulkTags = async (selectedTags: string[], newTags: string[]) => {
+    if (!bulkTagAction) return;
+
+    await bulkUpdateNotes(bulkTagAction, selectedNoteIds, [...selectedTags, ...newTags]);
+    exitSelection();
+    await loadNotes();
+    await loadTags();
+  };
+
+  const handleBulkDelete = async () => {
+    const count = selectedNoteIds.length;
+    if (!confirm(`Move ${count} ${count === 1 ? 'note' : 'notes'} to the trash?`)) {
+      return;
+    }
+
+    try {
+      await bulkUpdateNotes('delete', selectedNoteIds);
+      exitSelection();
+      await loadNotes();
+      await loadTags();
+    } catch (err) {
+      console.error('Error deleting notes:', err);
+      setError('Failed to delete notes.');
     }
   };
 
@@ -128,6 +507,15 @@ function App() {
 
   const handleCloseEditor = () => {
     setEditingNote(null);
+    if (resolvingConflict) {
+      setSyncConflicts((previous) => previous.filter((conflict) => conflict !== resolvingConflict));
+      setResolvingConflict(null);
+    }
+  };
+
+  const handleResolveConflict = (conflict: OfflineConflict) => {
+    setResolvingConflict(conflict);
+    setEditingNote(conflict.conflict.note);
   };
 
   const handleUpdateNote = async () => {
@@ -135,6 +523,44 @@ function App() {
     await loadTags();
   };
 
+  const handleLogout = async () => {
+    await disableReminderNotifications().catch((err) => console.error('Error disabling notifications:', err));
+    try {
+      await logout();
+    } catch (err) {
+      console.error('Error logging out:', err);
+    }
+    setUser(null);
+    setNotes([]);
+    setTotalNotes(0);
+    setNextCursor(null);
+    nextCursorRef.current = null;
+    setTags([]);
+    setView('notes');
+    setPendingChanges(0);
+    setSyncConflicts([]);
+    setDroppedChanges([]);
+    setResolvingConflict(null);
+    setEditingNote(null);
+    exitSelection();
+  };
+
+  const handleSearch = (q: string, includeHistory: boolean) => {
+    setFilters({
+      ...filters,
+      q: q || undefined,
+      includeHistory: includeHistory || undefined,
+    });
+  };
+
+  if (isCheckingAuth) {
+    return null;
+  }
+
+  if (!user) {
+    return <LoginScreen onLogin={setUser} />;
+  }
+
   return (
     <div className="app">
       <main className="app-main">
@@ -142,6 +568,7 @@ function App() {
           <section className={`note-input-section ${isTyping ? 'expanded' : ''}`}>
             <NoteForm
               onSubmit={handleCreateNote}
+              onRecord={handleCreateVoiceNote}
               isLoading={isLoading}
               onCancel={handleNoteCancel}
               onFocus={handleNoteFocus}
@@ -174,59 +601,208 @@ function App() {
         )}
 
         {!isTyping && <section className="notes-section">
-          <div className="notes-section-header">
-            <div className="sort-header">
-              <button
-                className={`sort-btn ${filters.sortBy === 'created_at' ? 'active' : ''}`}
-                onClick={() => setFilters({
-                  ...filters,
-                  sortBy: 'created_at',
-                  sortOrder: filters.sortBy === 'created_at' && filters.sortOrder === 'desc' ? 'asc' : 'desc'
-                })}
-              >
-                Created
-                {filters.sortBy === 'created_at' && (
-                  <svg viewBox="0 0 24 24" fill="currentColor" className={filters.sortOrder === 'asc' ? 'flip' : ''}>
-                    <path d="M7 10l5 5 5-5z"/>
-                  </svg>
-                )}
+          <div className="view-tabs">
+            <button
+              className={`view-tab ${view === 'notes' ? 'active' : ''}`}
+              onClick={() => setView('notes')}
+            >
+              Notes
+            </button>
+            <button
+              className={`view-tab ${view === 'archived' ? 'active' : ''}`}
+              onClick={() => setView('archived')}
+            >
+              Archived
+            </button>
+            <button
+              className={`view-tab ${view === 'upcoming' ? 'active' : ''}`}
+              onClick={() => setView('upcoming')}
+            >
+              Upcoming
+            </button>
+            <button
+              className={`view-tab ${view === 'trash' ? 'active' : ''}`}
+              onClick={() => setView('trash')}
+            >
+              Trash
+            </button>
+            <div className="user-menu">
+              <button className="logout-btn" onClick={() => setShowImport(true)}>
+                Import
               </button>
-              <button
-                className={`sort-btn ${filters.sortBy === 'updated_at' ? 'active' : ''}`}
-                onClick={() => setFilters({
-                  ...filters,
-                  sortBy: 'updated_at',
-                  sortOrder: filters.sortBy === 'updated_at' && filters.sortOrder === 'desc' ? 'asc' : 'desc'
-                })}
-              >
-                Updated
-                {filters.sortBy === 'updated_at' && (
-                  <svg viewBox="0 0 24 24" fill="currentColor" className={filters.sortOrder === 'asc' ? 'flip' : ''}>
-                    <path d="M7 10l5 5 5-5z"/>
-                  </svg>
-                )}
+              <button className="logout-btn" onClick={() => setShowExport(true)}>
+                Export
+              </button>
+              <span className="user-name">{user.username}</span>
+              <button className="logout-btn" onClick={handleLogout}>
+                Log out
               </button>
-              <span className="note-count">{notes.length} {notes.length === 1 ? 'note' : 'notes'}</span>
             </div>
           </div>
-          <div className="notes-content expanded">
-            {notes.length === 0 ? (
-              <div className="empty-state">
-                <p>No notes yet. Click the button above to create your first note!</p>
+          {view === 'upcoming' ? (
+            <UpcomingView
+              refreshKey={reminderRefreshKey}
+              onEdit={handleEditNote}
+              onDelete={handleDeleteNote}
+            />
+          ) : view === 'trash' ? (
+            <TrashView
+              onRestore={() => {
+                loadNotes();
+                loadTags();
+              }}
+            />
+          ) : (
+            <>
+              <div className="notes-section-header">
+                <SearchBar
+                  query={filters.q || ''}
+                  includeHistory={filters.includeHistory || false}
+                  onSearch={handleSearch}
+                />
+                <div className="sort-header">
+                  <button
+                    className={`sort-btn ${filters.sortBy === 'created_at' ? 'active' : ''}`}
+                    onClick={() => setFilters({
+                      ...filters,
+                      sortBy: 'created_at',
+                      sortOrder: filters.sortBy === 'created_at' && filters.sortOrder === 'desc' ? 'asc' : 'desc'
+                    })}
+                  >
+                    Created
+                    {filters.sortBy === 'created_at' && (
+                      <svg viewBox="0 0 24 24" fill="currentColor" className={filters.sortOrder === 'asc' ? 'flip' : ''}>
+                        <path d="M7 10l5 5 5-5z"/>
+                      </svg>
+                    )}
+                  </button>
+                  <button
+                    className={`sort-btn ${filters.sortBy === 'updated_at' ? 'active' : ''}`}
+                    onClick={() => setFilters({
+                      ...filters,
+                      sortBy: 'updated_at',
+                      sortOrder: filters.sortBy === 'updated_at' && filters.sortOrder === 'desc' ? 'asc' : 'desc'
+                    })}
+                  >
+                    Updated
+                    {filters.sortBy === 'updated_at' && (
+                      <svg viewBox="0 0 24 24" fill="currentColor" className={filters.sortOrder === 'asc' ? 'flip' : ''}>
+                        <path d="M7 10l5 5 5-5z"/>
+                      </svg>
+                    )}
+                  </button>
+                  <span className="note-count">{totalNotes} {totalNotes === 1 ? 'note' : 'notes'}</span>
+                  {!isSelecting && notes.length > 0 && (
+                    <button className="sort-btn" onClick={() => setIsSelecting(true)}>
+                      Select
+                    </button>
+                  )}
+                </div>
               </div>
-            ) : (
-              <div className="notes-grid">
-                {notes.map((note) => (
-                  <NoteCard
-                    key={note.id}
-                    note={note}
-                    onDelete={handleDeleteNote}
-                    onEdit={handleEditNote}
-                  />
-                ))}
+              {isSelecting && (
+                <BulkActionBar
+                  selectedCount={selectedNoteIds.length}
+                  loadedCount={notes.length}
+                  onSelectAll={() => setSelectedNoteIds(notes.map((note) => note.id))}
+                  onClearSelection={() => setSelectedNoteIds([])}
+                  onAddTags={() => setBulkTagAction('add-tags')}
+                  onRemoveTags={() => setBulkTagAction('remove-tags')}
+                  onExport={() => {
+                    setExportNoteIds(selectedNoteIds);
+                    setShowExport(true);
+                  }}
+                  onDelete={handleBulkDelete}
+                  onDone={exitSelection}
+                />
+              )}
+              {(isOffline || pendingChanges > 0) && (
+                <div className="offline-banner">
+                  <span>
+                    {isOffline ? 'Offline — showing notes saved on this device.' : 'Back online.'}
+                    {pendingChanges > 0 &&
+                      ` ${pendingChanges} ${pendingChanges === 1 ? 'change' : 'changes'} waiting to sync.`}
+                  </span>
+                  {!isOffline && pendingChanges > 0 && (
+                    <button className="offline-banner-btn" onClick={syncOfflineChanges}>
+                      Sync now
+                    </button>
+                  )}
+                </div>
+              )}
+              {syncConflicts.length > 0 && (
+                <div className="offline-banner conflict">
+                  <span>
+                    {syncConflicts.length === 1
+                      ? 'An edit made offline conflicts with a newer version of the note.'
+                      : `${syncConflicts.length} edits made offline conflict with newer versions of their notes.`}
+                  </span>
+                  <button className="offline-banner-btn" onClick={() => handleResolveConflict(syncConflicts[0])}>
+                    Resolve
+                  </button>
+                </div>
+              )}
+              {droppedChanges.length > 0 && (
+                <div className="offline-banner conflict">
+                  <span>
+                    {droppedChanges.length === 1
+                      ? 'A change made offline was rejected by the server and discarded:'
+                      : `${droppedChanges.length} changes made offline were rejected by the server and discarded:`}
+                  </span>
+                  <button className="offline-banner-btn" onClick={() => setDroppedChanges([])}>
+                    Dismiss
+                  </button>
+                  <ul className="offline-banner-list">
+                    {droppedChanges.map((change, index) => (
+                      <li key={index}>
+                        {describeOfflineChange(change.mutation)} — {change.reason}
+                      </li>
+                    ))}
+                  </ul>
+                </div>
+              )}
+              <div className="notes-content expanded">
+                {notes.length === 0 ? (
+                  <div className="empty-state">
+                    {filters.q ? (
+                      <p>No notes match "{filters.q}".</p>
+                    ) : view === 'archived' ? (
+                      <p>No archived notes. Archive a note to keep it out of your main list without deleting it.</p>
+                    ) : (
+                      <p>No notes yet. Click the button above to create your first note!</p>
+                    )}
+                  </div>
+                ) : (
+                  <>
+                    <div className="notes-grid">
+                      {notes.map((note) => (
+                        <NoteCard
+                          key={note.id}
+                          note={note}
+                          onDelete={handleDeleteNote}
+                          onEdit={handleEditNote}
+                          onTogglePin={handleTogglePin}
+                          onToggleArchive={handleToggleArchive}
+                          onToggleChecklistItem={handleToggleChecklistItem}
+                          isSelecting={isSelecting}
+                          isSelected={selectedNoteIds.includes(note.id)}
+                          onToggleSelect={toggleNoteSelected}
+                        />
+                      ))}
+                    </div>
+                    {nextCursor && (
+                      <div ref={loadMoreRef} className="load-more">
+                        {isLoadingMore ? 'Loading more notes...' : (
+                          <button className="load-more-btn" onClick={loadMoreNotes}>
+                            Load more
+                          </button>
+                        )}
+                      </div>
+                    )}
+                  </>
+                )}
               </div>
-            )}
-          </div>
+            </>
+          )}
         </section>}
       </main>
 
@@ -236,12 +812,48 @@ function App() {
           allTags={tags}
           onClose={handleCloseEditor}
           onUpdate={handleUpdateNote}
+          onSaved={handleNoteSaved}
+          offlineConflict={resolvingConflict ?? undefined}
+        />
+      )}
+
+      {showExport && (
+        <ExportDialog
+          tagFilter={exportNoteIds ? undefined : filters}
+          noteIds={exportNoteIds}
+          onClose={() => {
+            setShowExport(false);
+            setExportNoteIds(undefined);
+          }}
+        />
+      )}
+
+      {showImport && (
+        <ImportDialog
+          onClose={() => setShowImport(false)}
+          onImported={() => {
+            loadNotes();
+            loadTags();
+          }}
+        />
+      )}
+
+      {bulkTagAction && (
+        <TagSelector
+          availableTags={bulkTagAction === 'add-tags' ? tags : selectedNoteTags()}
+          title={`${bulkTagAction === 'add-tags' ? 'Add Tags to' : 'Remove Tags from'} ${selectedNoteIds.length} ${selectedNoteIds.length === 1 ? 'Note' : 'Notes'}`}
+          saveLabel={bulkTagAction === 'add-tags' ? 'Add Tags' : 'Remove Tags'}
+          cancelLabel="Cancel"
+          allowNewTags={bulkTagAction === 'add-tags'}
+          onClose={() => setBulkTagAction(null)}
+          onSave={handleBulkTags}
         />
       )}
 
-      {newNoteForTagging && (
+      {noteForTagging && (
         <TagSelector
           availableTags={tags}
+          suggestions={tagSuggestions}
           onClose={handleCloseTagSelector}
           onSave={handleSaveTags}
         />
@@ -1,44 +1,377 @@
 import axios from 'axios';
-import { Note, Tag, NoteFilters, NoteVersion } from './types';
+import { Attachment, Note, NoteConflict, NoteDraft, DraftKey, NotePage, PushSubscriptionRequest, OfflineSyncResult, SyncEvent, Tag, TagSuggestion, NoteFilters, SavedView, BulkNoteAction, BulkNoteResult, NoteVersion, NoteVersionDiff, User, AuthResponse, ExportFormat, ImportReport } from './types';
+import {
+  isNetworkError,
+  cacheNotes,
+  cacheNotePage,
+  getCachedNotePage,
+  removeCachedNote,
+  cacheTags,
+  getCachedTags,
+  getQueuedMutations,
+  removeQueuedMutation,
+  replaceTempNoteId,
+  createNoteOffline,
+  discardOfflineNote,
+  recordReplayFailure,
+  clearOfflineData,
+  updateNoteOffline,
+  addTagOffline,
+  removeTagOffline,
+} from './offline';
 
 const API_BASE = '/api';
+const TOKEN_STORAGE_KEY = 'omnirambles-token';
+// The signed-in user is remembered so a stored session can be restored without a connection
+const USER_STORAGE_KEY = 'omnirambles-user';
+const EVENTS_RETRY_MS = 3000;
 
-export async function createNote(content: string): Promise<Note> {
+let unauthorizedHandler: (() => void) | null = null;
+
+// Attach the session token to every API request
+axios.interceptors.request.use((config) => {
+  const token = getAuthToken();
+  if (token) {
+    config.headers.Authorization = `Bearer ${token}`;
+  }
+  return config;
+});
+
+// A 401 means the session expired or was revoked; drop it and send the user back to login
+axios.interceptors.response.use(
+  (response) => response,
+  (error) => {
+    if (axios.isAxiosError(error) && error.response?.status === 401 && getAuthToken()) {
+      setAuthToken(null);
+      unauthorizedHandler?.();
+    }
+    return Promise.reject(error);
+  }
+);
+
+export function getAuthToken(): string | null {
+  return localStorage.getItem(TOKEN_STORAGE_KEY);
+}
+
+export function setAuthToken(token: string | null): void {
+  if (token) {
+    localStorage.setItem(TOKEN_STORAGE_KEY, token);
+  } else {
+    localStorage.removeItem(TOKEN_STORAGE_KEY);
+  }
+}
+
+// Offline data left behind by an expired session must not be replayed into another account
+async function rememberUser(user: User): Promise<User> {
+  const storedUser = localStorage.getItem(USER_STORAGE_KEY);
+  if (storedUser && JSON.parse(storedUser).id !== user.id) {
+    await clearOfflineData();
+  }
+  localStorage.setItem(USER_STORAGE_KEY, JSON.stringify(user));
+  return user;
+}
+
+export function setUnauthorizedHandler(handler: (() => void) | null): void {
+  unauthorizedHandler = handler;
+}
+
+// Auth API
+export async function register(username: string, password: string): Promise<User> {
+  const response = await axios.post<AuthResponse>(`${API_BASE}/auth/register`, { username, password });
+  setAuthToken(response.data.token);
+  return rememberUser(response.data.user);
+}
+
+export async function login(username: string, password: string): Promise<User> {
+  const response = await axios.post<AuthResponse>(`${API_BASE}/auth/login`, { username, password });
+  setAuthToken(response.data.token);
+  return rememberUser(response.data.user);
+}
+
+export async function logout(): Promise<void> {
+  try {
+    await axios.post(`${API_BASE}/auth/logout`);
+  } finally {
+    setAuthToken(null);
+    localStorage.removeItem(USER_STORAGE_KEY);
+    await clearOfflineData();
+  }
+}
+
+export async function getCurrentUser(): Promise<User> {
+  try {
+    const response = await axios.get(`${API_BASE}/auth/me`);
+    return rememberUser(response.data);
+  } catch (err) {
+    const storedUser = localStorage.getItem(USER_STORAGE_KEY);
+    if (isNetworkError(err) && storedUser) return JSON.parse(storedUser);
+    throw err;
+  }
+}
+
+// Notes API
+// Note and tag changes made while the server is unreachable are queued by ./offline and
+// applied locally; replayOfflineChanges sends them once it is reachable again.
+async function postNote(content: string): Promise<Note> {
   const response = await axios.post(`${API_BASE}/notes`, { content });
   return response.data;
 }
 
-export async function getNotes(filters?: NoteFilters): Promise<Note[]> {
-  const params = new URLSearchParams();
+async function putNote(id: number, content: string, baseVersion?: number, baseRevision?: number): Promise<Note> {
+  const response = await axios.put(`${API_BASE}/notes/${id}`, { content, baseVersion, baseRevision });
+  return response.data;
+}
+
+async function postNoteTag(noteId: number, tagName: string, source: 'AI' | 'Self'): Promise<Note> {
+  const response = await axios.post(`${API_BASE}/notes/${noteId}/tags`, { tagName, source });
+  return response.data;
+}
 
+async function deleteNoteTag(noteId: number, tagId: number): Promise<Note> {
+  const response = await axios.delete(`${API_BASE}/notes/${noteId}/tags/${tagId}`);
+  return response.data;
+}
+
+// Keeps the offline cache in step with a note the server just returned
+function cached(note: Note): Note {
+  cacheNotes([note]).catch(err => console.error('Error caching note:', err));
+  return note;
+}
+
+export async function createNote(content: string): Promise<Note> {
+  try {
+    return cached(await postNote(content));
+  } catch (err) {
+    if (isNetworkError(err)) return createNoteOffline(content);
+    throw err;
+  }
+}
+
+export const NOTES_PAGE_SIZE = 50;
+
+// Pass the previous page's next_cursor to fetch the following page
+export async function getNotes(filters?: NoteFilters, cursor?: string): Promise<NotePage> {
+  const params = new URLSearchParams({ limit: String(NOTES_PAGE_SIZE) });
+
+  if (filters?.archived) {
+    params.append('archived', filters.archived);
+  }
+  if (filters?.q) {
+    params.append('q', filters.q);
+  }
+  if (filters?.includeHistory) {
+    params.append('includeHistory', 'true');
+  }
   if (filters?.tags && filters.tags.length > 0) {
     params.append('tags', filters.tags.join(','));
   }
+  if (filters?.tagMode) {
+    params.append('tagMode', filters.tagMode);
+  }
+  if (filters?.excludeTags && filters.excludeTags.length > 0) {
+    params.append('excludeTags', filters.excludeTags.join(','));
+  }
+  if (filters?.untagged) {
+    params.append('untagged', 'true');
+  }
+  for (const key of ['createdFrom', 'createdTo', 'updatedFrom', 'updatedTo'] as const) {
+    const value = filters?.[key];
+    if (value) {
+      params.append(key, value);
+    }
+  }
+  if (filters?.moreThanVersions !== undefined) {
+    params.append('moreThanVersions', String(filters.moreThanVersions));
+  }
   if (filters?.sortBy) {
     params.append('sortBy', filters.sortBy);
   }
   if (filters?.sortOrder) {
     params.append('sortOrder', filters.sortOrder);
   }
+  if (cursor) {
+    params.append('cursor', cursor);
+  }
 
-  const response = await axios.get(`${API_BASE}/notes?${params.toString()}`);
-  return response.data;
+  try {
+    const response = await axios.get<NotePage>(`${API_BASE}/notes?${params.toString()}`);
+    cacheNotePage(response.data, filters, !cursor).catch(err => console.error('Error caching notes:', err));
+    return response.data;
+  } catch (err) {
+    // The offline cache is returned whole, so there is never a next page to fetch from it
+    if (isNetworkError(err) && !cursor) return getCachedNotePage(filters);
+    throw err;
+  }
 }
 
 export async function deleteNote(id: number): Promise<void> {
+  if (id < 0) return discardOfflineNote(id);
+
   await axios.delete(`${API_BASE}/notes/${id}`);
+  await removeCachedNote(id);
+}
+
+export async function setNotePinned(id: number, pinned: boolean): Promise<Note> {
+  const response = await axios.put(`${API_BASE}/notes/${id}/pinned`, { pinned });
+  return cached(response.data);
 }
 
-export async function updateNote(id: number, content: string): Promise<Note> {
-  const response = await axios.put(`${API_BASE}/notes/${id}`, { content });
+// Archiving a note also unpins it
+export async function setNoteArchived(id: number, archived: boolean): Promise<Note> {
+  const response = await axios.put(`${API_BASE}/notes/${id}/archived`, { archived });
+  return cached(response.data);
+}
+
+// Pass null to clear the reminder; setting a new time re-arms one that already fired
+export async function setNoteReminder(id: number, remindAt: string | null): Promise<Note> {
+  const response = await axios.put(`${API_BASE}/notes/${id}/reminder`, { remindAt });
+  return cached(response.data);
+}
+
+// Ticks or unticks the checklist item on one line without creating a version; baseRevision guards
+// against the lines having moved, and a stale one is rejected with a NoteConflict
+export async function setChecklistItem(id: number, line: number, checked: boolean, baseRevision?: number): Promise<Note> {
+  const response = await axios.patch(`${API_BASE}/notes/${id}/checklist/${line}`, { checked, baseRevision });
+  return cached(response.data);
+}
+
+export async function bulkUpdateNotes(action: BulkNoteAction, noteIds: number[], tags?: string[]): Promise<BulkNoteResult> {
+  const response = await axios.post(`${API_BASE}/notes/bulk`, { action, noteIds, tags });
   return response.data;
 }
 
-export async function getAllTags(): Promise<Tag[]> {
-  const response = await axios.get(`${API_BASE}/tags`);
+// baseVersion and baseRevision are what the edit started from; a stale one is rejected with a NoteConflict
+export async function updateNote(id: number, content: string, baseVersion?: number, baseRevision?: number): Promise<Note> {
+  // A note created offline only exists in the queue until it syncs
+  if (id < 0) return updateNoteOffline(id, content);
+
+  try {
+    return cached(await putNote(id, content, baseVersion, baseRevision));
+  } catch (err) {
+    if (isNetworkError(err)) return updateNoteOffline(id, content, baseVersion, baseRevision);
+    throw err;
+  }
+}
+
+export function getNoteConflict(err: unknown): NoteConflict | null {
+  if (axios.isAxiosError(err) && err.response?.status === 409 && err.response.data?.note) {
+    return err.response.data;
+  }
+  return null;
+}
+
+// Drafts API
+export async function getDraft(key: DraftKey): Promise<NoteDraft | null> {
+  try {
+    const response = await axios.get(`${API_BASE}/drafts/${key}`);
+    return response.data;
+  } catch (err) {
+    if (axios.isAxiosError(err) && err.response?.status === 404) return null;
+    throw err;
+  }
+}
+
+export async function saveDraft(key: DraftKey, content: string, baseVersion?: number): Promise<NoteDraft> {
+  const response = await axios.put(`${API_BASE}/drafts/${key}`, { content, baseVersion });
+  return response.data;
+}
+
+// Deleting a draft that doesn't exist is fine; there is nothing to lose
+export async function deleteDraft(key: DraftKey): Promise<void> {
+  try {
+    await axios.delete(`${API_BASE}/drafts/${key}`);
+  } catch (err) {
+    if (axios.isAxiosError(err) && err.response?.status === 404) return;
+    throw err;
+  }
+}
+
+// Reminders API
+// Every note with a reminder, soonest first, including ones that already fired
+export async function getReminders(): Promise<Note[]> {
+  const response = await axios.get(`${API_BASE}/reminders`);
+  return response.data;
+}
+
+// The server's VAPID key, or null when Web Push isn't configured
+export async function getPushPublicKey(): Promise<string | null> {
+  const response = await axios.get(`${API_BASE}/push/public-key`);
+  return response.data.publicKey;
+}
+
+export async function savePushSubscription(subscription: PushSubscriptionRequest): Promise<void> {
+  await axios.post(`${API_BASE}/push/subscriptions`, subscription);
+}
+
+export async function deletePushSubscription(endpoint: string): Promise<void> {
+  await axios.delete(`${API_BASE}/push/subscriptions`, { data: { endpoint } });
+}
+
+// Attachments API
+export async function uploadAttachments(noteId: number, files: File[]): Promise<Attachment[]> {
+  const formData = new FormData();
+  files.forEach(file => formData.append('files', file));
+
+  const response = await axios.post(`${API_BASE}/notes/${noteId}/attachments`, formData);
   return response.data;
 }
 
+// Files are fetched with the session token, so they are shown through object URLs rather than plain links
+export async function getAttachmentBlob(id: number, thumbnail = false): Promise<Blob> {
+  const response = await axios.get(`${API_BASE}/attachments/${id}${thumbnail ? '/thumbnail' : ''}`, { responseType: 'blob' });
+  return response.data;
+}
+
+export async function deleteAttachment(id: number): Promise<void> {
+  await axios.delete(`${API_BASE}/attachments/${id}`);
+}
+
+// Voice notes API
+// Creates an empty note holding the recording; the server fills in the transcript when it's ready
+export async function createVoiceNote(recording: Blob, filename: string): Promise<Note> {
+  const formData = new FormData();
+  formData.append('audio', recording, filename);
+
+  const response = await axios.post(`${API_BASE}/notes/voice`, formData);
+  return cached(response.data);
+}
+
+// Transcribes one of the note's audio attachments again, e.g. after a failure
+export async function transcribeAttachment(noteId: number, attachmentId: number): Promise<Note> {
+  const response = await axios.post(`${API_BASE}/notes/${noteId}/transcript`, { attachmentId });
+  return cached(response.data);
+}
+
+// Trash API
+export async function getTrash(): Promise<Note[]> {
+  const response = await axios.get(`${API_BASE}/trash`);
+  return response.data;
+}
+
+export async function restoreNote(id: number): Promise<Note> {
+  const response = await axios.post(`${API_BASE}/trash/${id}/restore`);
+  return response.data;
+}
+
+export async function purgeNote(id: number): Promise<void> {
+  await axios.delete(`${API_BASE}/trash/${id}`);
+}
+
+export async function emptyTrash(): Promise<void> {
+  await axios.delete(`${API_BASE}/trash`);
+}
+
+export async function getAllTags(): Promise<Tag[]> {
+  try {
+    const response = await axios.get<Tag[]>(`${API_BASE}/tags`);
+    cacheTags(response.data).catch(err => console.error('Error caching tags:', err));
+    return response.data;
+  } catch (err) {
+    if (isNetworkError(err)) return getCachedTags();
+    throw err;
+  }
+}
+
 // Version history API
 export async function getNoteVersions(noteId: number): Promise<NoteVersion[]> {
   const response = await axios.get(`${API_BASE}/notes/${noteId}/versions`);
@@ -50,15 +383,37 @@ export async function getNoteVersion(noteId: number, version: number): Promise<N
   return response.data;
 }
 
+export async function getNoteVersionDiff(noteId: number, from: number, to: number): Promise<NoteVersionDiff> {
+  const response = await axios.get(`${API_BASE}/notes/${noteId}/versions/diff`, { params: { from, to } });
+  return response.data;
+}
+
+export async function restoreNoteVersion(noteId: number, version: number): Promise<Note> {
+  const response = await axios.post(`${API_BASE}/notes/${noteId}/versions/${version}/restore`);
+  return response.data;
+}
+
 // Tag management API
 export async function addTagToNote(noteId: number, tagName: string, source: 'AI' | 'Self'): Promise<Note> {
-  const response = await axios.post(`${API_BASE}/notes/${noteId}/tags`, { tagName, source });
-  return response.data;
+  if (noteId < 0) return addTagOffline(noteId, tagName, source);
+
+  try {
+    return cached(await postNoteTag(noteId, tagName, source));
+  } catch (err) {
+    if (isNetworkError(err)) return addTagOffline(noteId, tagName, source);
+    throw err;
+  }
 }
 
 export async function removeTagFromNote(noteId: number, tagId: number): Promise<Note> {
-  const response = await axios.delete(`${API_BASE}/notes/${noteId}/tags/${tagId}`);
-  return response.data;
+  if (noteId < 0 || tagId < 0) return removeTagOffline(noteId, tagId);
+
+  try {
+    return cached(await deleteNoteTag(noteId, tagId));
+  } catch (err) {
+    if (isNetworkError(err)) return removeTagOffline(noteId, tagId);
+    throw err;
+  }
 }
 
 // Tag management API
@@ -75,3 +430,224 @@ export async function updateTag(id: number, name: string): Promise<Tag> {
 export async function deleteTag(id: number): Promise<void> {
   await axios.delete(`${API_BASE}/tags/${id}`);
 }
+
+// Suggested tags for note content; pass the note id to leave out tags it already has
+export async function suggestTags(content: string, noteId?: number): Promise<TagSuggestion[]> {
+  const response = await axios.post(`${API_BASE}/tag-suggestions`, { content, noteId });
+  return response.data;
+}
+
+// Moves all notes from the source tag onto the target and deletes the source
+export async function mergeTags(sourceId: number, targetId: number): Promise<Tag> {
+  const response = await axios.post(`${API_BASE}/tags/${sourceId}/merge`, { targetId });
+  return response.data;
+}
+
+// Saved views API
+export async function getSavedViews(): Promise<SavedView[]> {
+  const response = await axios.get(`${API_BASE}/views`);
+  return response.data;
+}
+
+export async function createSavedView(name: string, filters: NoteFilters): Promise<SavedView> {
+  const response = await axios.post(`${API_BASE}/views`, { name, filters });
+  return response.data;
+}
+
+export async function updateSavedView(id: number, name: string, filters: NoteFilters): Promise<SavedView> {
+  const response = await axios.put(`${API_BASE}/views/${id}`, { name, filters });
+  return response.data;
+}
+
+export async function deleteSavedView(id: number): Promise<void> {
+  await axios.delete(`${API_BASE}/views/${id}`);
+}
+
+// Export API
+export type ExportTagFilter = Pick<NoteFilters, 'tags' | 'tagMode' | 'excludeTags'>;
+
+export async function exportNotes(
+  format: ExportFormat,
+  includeHistory: boolean,
+  tagFilter?: ExportTagFilter,
+  noteIds?: number[]
+): Promise<{ blob: Blob; filename: string }> {
+  const params = new URLSearchParams({ format });
+
+  if (includeHistory) {
+    params.append('history', 'true');
+  }
+  if (tagFilter?.tags && tagFilter.tags.length > 0) {
+    params.append('tags', tagFilter.tags.join(','));
+    if (tagFilter.tagMode === 'and') {
+      params.append('tagMode', 'and');
+    }
+  }
+  if (tagFilter?.excludeTags && tagFilter.excludeTags.length > 0) {
+    params.append('excludeTags', tagFilter.excludeTags.join(','));
+  }
+  if (noteIds && noteIds.length > 0) {
+    params.append('ids', noteIds.join(','));
+  }
+
+  const response = await axios.get(`${API_BASE}/export?${params.toString()}`, { responseType: 'blob' });
+  const disposition: string = response.headers['content-disposition'] || '';
+  const filename = /filename="([^"]+)"/.exec(disposition)?.[1] || `omnirambles-${format}.zip`;
+
+  return { blob: response.data, filename };
+}
+
+// Import API
+export async function importNotes(files: File[], dryRun: boolean): Promise<ImportReport> {
+  const formData = new FormData();
+  files.forEach(file => formData.append('files', file));
+
+  const response = await axios.post(`${API_BASE}/import`, formData, {
+    params: dryRun ? { dryRun: 'true' } : undefined,
+  });
+  return response.data;
+}
+
+// Offline sync API
+let replaying: Promise<OfflineSyncResult> | null = null;
+// A change the server keeps failing on would otherwise hold up everything queued behind it
+const MAX_REPLAY_ATTEMPTS = 5;
+
+/**
+ * Sends queued offline changes to the server in the order they were made. Offline edits to notes
+ * that changed on the server in the meantime come back as conflicts for the user to resolve, and
+ * changes the server refuses as invalid or for a missing note come back as dropped, along with
+ * anything queued for a note whose creation was dropped. Any other failure (offline, signed out,
+ * rate limited, a server error) stops the replay and leaves the change and everything behind it
+ * queued for the next sync; a change that fails with a server error MAX_REPLAY_ATTEMPTS times is dropped.
+ */
+export function replayOfflineChanges(): Promise<OfflineSyncResult> {
+  if (!replaying) {
+    replaying = replayQueue().finally(() => {
+      replaying = null;
+    });
+  }
+  return replaying;
+}
+
+async function replayQueue(): Promise<OfflineSyncResult> {
+  const result: OfflineSyncResult = { conflicts: [], dropped: [] };
+  // Re-read after every step since a synced create rewrites the ids of the changes behind it
+  let queue = await getQueuedMutations();
+
+  while (queue.length > 0) {
+    const mutation = queue[0];
+    try {
+      switch (mutation.type) {
+        case 'create':
+          await replaceTempNoteId(mutation.noteId, await postNote(mutation.content));
+          break;
+        case 'update':
+          cached(await putNote(mutation.noteId, mutation.content, mutation.baseVersion, mutation.baseRevision));
+          break;
+        case 'add-tag':
+          cached(await postNoteTag(mutation.noteId, mutation.tagName, mutation.source));
+          break;
+        case 'remove-tag':
+          cached(await deleteNoteTag(mutation.noteId, mutation.tagId));
+          break;
+      }
+    } catch (err) {
+      const status = axios.isAxiosError(err) ? err.response?.status : undefined;
+      const reason = (axios.isAxiosError(err) && err.response?.data?.error) || 'Rejected by the server';
+      const conflict = getNoteConflict(err);
+      if (conflict && mutation.type === 'update') {
+        result.conflicts.push({ conflict, content: mutation.content });
+        cached(conflict.note);
+      } else if (
+        status === 400 ||
+        status === 404 ||
+        (status !== undefined && status >= 500 && (await recordReplayFailure(mutation)) >= MAX_REPLAY_ATTEMPTS)
+      ) {
+        result.dropped.push({ mutation, reason });
+
+        // Later changes to a note that was never created would only fail on its temporary id
+        if (mutation.type === 'create') {
+          for (const orphan of queue.slice(1).filter(queued => queued.noteId === mutation.noteId)) {
+            result.dropped.push({ mutation: orphan, reason: 'The note it belongs to could not be created' });
+          }
+          await discardOfflineNote(mutation.noteId);
+        }
+      } else {
+        break;
+      }
+    }
+
+    await removeQueuedMutation(mutation.id);
+    queue = await getQueuedMutations();
+  }
+
+  return result;
+}
+
+// Live updates API
+// Reads the server's event stream with fetch rather than EventSource so the token can go in a header.
+// Reconnects until the returned function is called; onReconnect runs after a dropped stream
+// comes back, since any events sent in between were missed.
+export function subscribeToEvents(onEvent: (event: SyncEvent) => void, onReconnect: () => void): () => void {
+  const controller = new AbortController();
+  let retryTimer: number | undefined;
+
+  const connect = async (isReconnect: boolean) => {
+    try {
+      const token = getAuthToken();
+      const response = await fetch(`${API_BASE}/events`, {
+        headers: token ? { Authorization: `Bearer ${token}` } : {},
+        signal: controller.signal,
+      });
+
+      if (response.status === 401) {
+        if (getAuthToken()) {
+          setAuthToken(null);
+          unauthorizedHandler?.();
+        }
+        return;
+      }
+      if (!response.ok || !response.body) {
+        throw new Error(`Event stream returned ${response.status}`);
+      }
+      if (isReconnect) onReconnect();
+
+      const reader = response.body.getReader();
+      const decoder = new TextDecoder();
+      let buffer = '';
+
+      while (true) {
+        const { value, done } = await reader.read();
+        if (done) break;
+
+        buffer += decoder.decode(value, { stream: true });
+        const messages = buffer.split('\n\n');
+        buffer = messages.pop() || '';
+
+        for (const message of messages) {
+          const data = message
+            .split('\n')
+            .filter(line => line.startsWith('data: '))
+            .map(line => line.slice('data: '.length))
+            .join('\n');
+          if (data) onEvent(JSON.parse(data));
+        }
+      }
+    } catch (err) {
+      if (controller.signal.aborted) return;
+      console.error('Event stream disconnected:', err);
+    }
+
+    if (!controller.signal.aborted) {
+      retryTimer = window.setTimeout(() => connect(true), EVENTS_RETRY_MS);
+    }
+  };
+
+  connect(false);
+
+  return () => {
+    controller.abort();
+    window.clearTimeout(retryTimer);
+  };
+}
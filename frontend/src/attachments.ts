@@ -0,0 +1,77 @@
+import { useState, useEffect } from 'react';
+import { getAttachmentBlob } from './api';
+import { Attachment } from './types';
+
+export const ATTACHMENT_ACCEPT = 'image/*,application/pdf,audio/*';
+
+export function isImageAttachment(attachment: Attachment): boolean {
+  return attachment.content_type.startsWith('image/');
+}
+
+export function isAudioAttachment(attachment: Attachment): boolean {
+  return attachment.content_type.startsWith('audio/');
+}
+
+export function attachmentIcon(attachment: Attachment): string {
+  if (isImageAttachment(attachment)) return '🖼️';
+  if (isAudioAttachment(attachment)) return '🎵';
+  return '📄';
+}
+
+export function formatFileSize(bytes: number): string {
+  if (bytes < 1024) return `${bytes} B`;
+  if (bytes < 1024 * 1024) return `${Math.round(bytes / 1024)} KB`;
+  return `${(bytes / (1024 * 1024)).toFixed(1)} MB`;
+}
+
+/**
+ * Object URL for an attachment (or its thumbnail), or null until it has loaded. Pass null to load
+ * nothing. The URL is revoked when the component unmounts or the attachment changes.
+ */
+export function useAttachmentUrl(attachment: Attachment | null, thumbnail = false): string | null {
+  const [url, setUrl] = useState<string | null>(null);
+  const id = attachment?.id;
+
+  useEffect(() => {
+    if (id === undefined) return;
+
+    let objectUrl: string | null = null;
+    let cancelled = false;
+
+    getAttachmentBlob(id, thumbnail)
+      .then((blob) => {
+        if (cancelled) return;
+        objectUrl = URL.createObjectURL(blob);
+        setUrl(objectUrl);
+      })
+      .catch((err) => console.error('Error loading attachment:', err));
+
+    return () => {
+      cancelled = true;
+      if (objectUrl) URL.revokeObjectURL(objectUrl);
+      setUrl(null);
+    };
+  }, [id, thumbnail]);
+
+  return url;
+}
+
+// Opens the file in a new tab, e.g. a PDF in the browser's viewer
+export async function openAttachment(attachment: Attachment): Promise<void> {
+  // Opened before the download so popup blockers still see it as a response to the click
+  const tab = window.open('', '_blank');
+  try {
+    const blob = await getAttachmentBlob(attachment.id);
+    const url = URL.createObjectURL(blob);
+    if (tab) {
+      tab.location.href = url;
+    } else {
+      window.location.href = url;
+    }
+    // Long enough for the new tab to load it
+    window.setTimeout(() => URL.revokeObjectURL(url), 60000);
+  } catch (err) {
+    tab?.close();
+    throw err;
+  }
+}
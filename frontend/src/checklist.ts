@@ -0,0 +1,67 @@
+import { marked, Token } from 'marked';
+import { ChecklistItem } from './types';
+
+// The box on a task item's line: "- [ ] text", "* [x] text", "1. [ ] text", also quoted ("> - [ ]")
+// or after another list marker ("- - [ ]"). Only used to rewrite a line marked says is a task item.
+const TASK_BOX_PATTERN = /^([ \t>]*(?:(?:[-*+]|\d{1,9}[.)])[ \t]+[ \t>]*)+\[)([ xX])(\])/;
+
+const countLines = (text: string) => text.split('\n').length - 1;
+
+// Where a token's raw text starts. Some raws aren't copied verbatim (a merged paragraph gains a
+// blank line, a nested block keeps a newline its container trimmed), so fall back to the first line.
+function locate(text: string, raw: string, cursor: number): { index: number; end: number } {
+  const index = text.indexOf(raw, cursor);
+  if (index !== -1) return { index, end: index + raw.length };
+
+  const firstLine = raw.split('\n').find((rawLine) => rawLine.trim()) ?? '';
+  const lineIndex = firstLine ? text.indexOf(firstLine, cursor) : -1;
+  if (lineIndex !== -1) return { index: lineIndex, end: lineIndex + firstLine.length };
+  return { index: cursor, end: cursor };
+}
+
+// List items and blockquotes are lexed from their own text, with indentation and ">" stripped line
+// by line, so a child's line is its container's line plus the lines before it in that text
+function collectItems(tokens: Token[], text: string, line: number, items: ChecklistItem[]) {
+  let cursor = 0;
+  for (const token of tokens) {
+    const start = locate(text, token.raw, cursor);
+    const tokenLine = line + countLines(text.slice(0, start.index));
+    cursor = start.end;
+
+    if (token.type === 'list') {
+      let itemCursor = 0;
+      for (const item of token.items) {
+        const itemStart = locate(token.raw, item.raw, itemCursor);
+        const itemLine = tokenLine + countLines(token.raw.slice(0, itemStart.index));
+        itemCursor = itemStart.end;
+
+        if (item.task) items.push({ line: itemLine, checked: Boolean(item.checked) });
+        collectItems(item.tokens, item.text, itemLine, items);
+      }
+    } else if (token.type === 'blockquote') {
+      collectItems(token.tokens ?? [], token.text, tokenLine, items);
+    }
+  }
+}
+
+/**
+ * Finds the note's task list items with the same Markdown lexer that renders them, so items come
+ * in the order their checkboxes appear and skip anything marked doesn't draw a box for
+ * (code blocks, HTML blocks, and so on). Lines are numbered from 0.
+ */
+export function parseChecklist(content: string): ChecklistItem[] {
+  const text = content.replace(/\r\n|\r/g, '\n');
+  const items: ChecklistItem[] = [];
+  collectItems(marked.lexer(text), text, 0, items);
+  return items;
+}
+
+// Returns the content with the task item on that line ticked or unticked, or null if the line has no box
+export function setChecklistItemChecked(content: string, line: number, checked: boolean): string | null {
+  const lines = content.split('\n');
+  if (line < 0 || line >= lines.length || !TASK_BOX_PATTERN.test(lines[line])) return null;
+
+  lines[line] = lines[line].replace(TASK_BOX_PATTERN, (_, before, mark, after) =>
+    `${before}${checked ? (mark === ' ' ? 'x' : mark) : ' '}${after}`);
+  return lines.join('\n');
+}
@@ -0,0 +1,155 @@
+import { useState, useRef } from 'react';
+import axios from 'axios';
+import { Attachment, TranscriptStatus } from '../types';
+import { uploadAttachments, deleteAttachment, transcribeAttachment } from '../api';
+import {
+  ATTACHMENT_ACCEPT,
+  attachmentIcon,
+  formatFileSize,
+  isAudioAttachment,
+  openAttachment,
+  useAttachmentUrl,
+} from '../attachments';
+import { isTranscribing, transcriptStatusLabel } from '../voice';
+
+interface AttachmentManagerProps {
+  noteId: number;
+  attachments: Attachment[];
+  // Voice notes: the note's transcript status, and why it failed
+  transcriptStatus?: TranscriptStatus | null;
+  transcriptError?: string | null;
+  onChange: () => void;
+}
+
+interface AttachmentItemProps {
+  attachment: Attachment;
+  onDelete: () => void;
+  // Only given for audio; undefined while the note is being transcribed
+  onTranscribe?: () => void;
+}
+
+function AttachmentItem({ attachment, onDelete, onTranscribe }: AttachmentItemProps) {
+  const thumbnailUrl = useAttachmentUrl(attachment.has_thumbnail ? attachment : null, true);
+  // Audio plays inline, so its file is loaded up front
+  const audioUrl = useAttachmentUrl(isAudioAttachment(attachment) ? attachment : null);
+
+  const handleOpen = () => {
+    openAttachment(attachment).catch((err) => console.error('Error opening attachment:', err));
+  };
+
+  return (
+    <div className="attachment-item">
+      <button className="attachment-open" onClick={handleOpen} title={`Open ${attachment.filename}`}>
+        {thumbnailUrl ? (
+          <img className="attachment-item-thumb" src={thumbnailUrl} alt="" />
+        ) : (
+          <span className="attachment-item-icon">{attachmentIcon(attachment)}</span>
+        )}
+        <span className="attachment-item-name">{attachment.filename}</span>
+        <span className="attachment-item-size">{formatFileSize(attachment.size_bytes)}</span>
+      </button>
+      {audioUrl && <audio className="attachment-audio" controls src={audioUrl} />}
+      {isAudioAttachment(attachment) && (
+        <button
+          className="attachment-transcribe-btn"
+          onClick={onTranscribe}
+          disabled={!onTranscribe}
+          title="Transcribe the recording into the note"
+        >
+          📝
+        </button>
+      )}
+      <button className="attachment-delete-btn" onClick={onDelete} title="Delete attachment">
+        ×
+      </button>
+    </div>
+  );
+}
+
+export function AttachmentManager({ noteId, attachments, transcriptStatus, transcriptError, onChange }: AttachmentManagerProps) {
+  const [isUploading, setIsUploading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const fileInputRef = useRef<HTMLInputElement>(null);
+
+  const handleFilesChosen = async (fileList: FileList | null) => {
+    const files = Array.from(fileList || []);
+    if (files.length === 0) return;
+
+    setIsUploading(true);
+    setError(null);
+    try {
+      await uploadAttachments(noteId, files);
+      onChange();
+    } catch (err) {
+      console.error('Error uploading attachments:', err);
+      // The server explains rejected files (too large, unsupported type)
+      setError(axios.isAxiosError(err) && err.response?.data?.error ? err.response.data.error : 'Failed to upload attachments');
+    } finally {
+      setIsUploading(false);
+      if (fileInputRef.current) fileInputRef.current.value = '';
+    }
+  };
+
+  const handleDelete = async (attachment: Attachment) => {
+    if (!confirm(`Delete ${attachment.filename}? This cannot be undone.`)) {
+      return;
+    }
+
+    try {
+      await deleteAttachment(attachment.id);
+      onChange();
+    } catch (err) {
+      console.error('Error deleting attachment:', err);
+      setError('Failed to delete attachment');
+    }
+  };
+
+  const handleTranscribe = async (attachment: Attachment) => {
+    setError(null);
+    try {
+      await transcribeAttachment(noteId, attachment.id);
+      onChange();
+    } catch (err) {
+      console.error('Error queueing transcription:', err);
+      setError(axios.isAxiosError(err) && err.response?.data?.error ? err.response.data.error : 'Failed to start transcription');
+    }
+  };
+
+  return (
+    <div className="attachment-manager">
+      <h3>Attachments</h3>
+      {error && <div className="error-message">{error}</div>}
+      {transcriptStatus && transcriptStatus !== 'done' && (
+        <p className={`transcript-status ${transcriptStatus}`}>
+          🎙️ {transcriptStatusLabel(transcriptStatus)}
+          {transcriptError && `: ${transcriptError}`}
+        </p>
+      )}
+      {attachments.length > 0 ? (
+        <div className="attachment-list">
+          {attachments.map((attachment) => (
+            <AttachmentItem
+              key={attachment.id}
+              attachment={attachment}
+              onDelete={() => handleDelete(attachment)}
+              onTranscribe={isTranscribing(transcriptStatus) ? undefined : () => handleTranscribe(attachment)}
+            />
+          ))}
+        </div>
+      ) : (
+        <p className="no-tags">No attachments</p>
+      )}
+      <input
+        ref={fileInputRef}
+        type="file"
+        accept={ATTACHMENT_ACCEPT}
+        multiple
+        hidden
+        onChange={(e) => handleFilesChosen(e.target.files)}
+      />
+      <button className="add-tag-btn" onClick={() => fileInputRef.current?.click()} disabled={isUploading}>
+        {isUploading ? 'Uploading...' : '+ Attach Files'}
+      </button>
+    </div>
+  );
+}
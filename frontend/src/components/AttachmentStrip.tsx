@@ -0,0 +1,39 @@
+import { Attachment } from '../types';
+import { attachmentIcon, useAttachmentUrl } from '../attachments';
+
+const MAX_THUMBNAILS = 4;
+
+interface AttachmentStripProps {
+  attachments: Attachment[];
+}
+
+function AttachmentThumbnail({ attachment }: { attachment: Attachment }) {
+  const url = useAttachmentUrl(attachment, true);
+
+  return url ? (
+    <img className="attachment-thumb" src={url} alt={attachment.filename} title={attachment.filename} />
+  ) : (
+    <div className="attachment-thumb loading" title={attachment.filename} />
+  );
+}
+
+// Compact previews for note cards: image thumbnails first, then a chip per other file
+export function AttachmentStrip({ attachments }: AttachmentStripProps) {
+  const images = attachments.filter((attachment) => attachment.has_thumbnail);
+  const files = attachments.filter((attachment) => !attachment.has_thumbnail);
+  const hiddenImages = images.length - MAX_THUMBNAILS;
+
+  return (
+    <div className="attachment-strip">
+      {images.slice(0, MAX_THUMBNAILS).map((attachment) => (
+        <AttachmentThumbnail key={attachment.id} attachment={attachment} />
+      ))}
+      {hiddenImages > 0 && <span className="attachment-more">+{hiddenImages}</span>}
+      {files.map((attachment) => (
+        <span key={attachment.id} className="attachment-chip" title={attachment.filename}>
+          {attachmentIcon(attachment)} {attachment.filename}
+        </span>
+      ))}
+    </div>
+  );
+}
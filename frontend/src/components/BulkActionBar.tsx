@@ -0,0 +1,60 @@
+interface BulkActionBarProps {
+  selectedCount: number;
+  loadedCount: number;
+  onSelectAll: () => void;
+  onClearSelection: () => void;
+  onAddTags: () => void;
+  onRemoveTags: () => void;
+  onExport: () => void;
+  onDelete: () => void;
+  onDone: () => void;
+}
+
+export function BulkActionBar({
+  selectedCount,
+  loadedCount,
+  onSelectAll,
+  onClearSelection,
+  onAddTags,
+  onRemoveTags,
+  onExport,
+  onDelete,
+  onDone,
+}: BulkActionBarProps) {
+  const hasSelection = selectedCount > 0;
+
+  return (
+    <div className="bulk-action-bar">
+      <span className="bulk-count">
+        {selectedCount} selected
+      </span>
+      {selectedCount < loadedCount ? (
+        <button className="bulk-link-btn" onClick={onSelectAll}>
+          Select all {loadedCount}
+        </button>
+      ) : (
+        <button className="bulk-link-btn" onClick={onClearSelection}>
+          Clear
+        </button>
+      )}
+
+      <div className="bulk-actions">
+        <button className="bulk-btn" onClick={onAddTags} disabled={!hasSelection}>
+          Add Tags
+        </button>
+        <button className="bulk-btn" onClick={onRemoveTags} disabled={!hasSelection}>
+          Remove Tags
+        </button>
+        <button className="bulk-btn" onClick={onExport} disabled={!hasSelection}>
+          Export
+        </button>
+        <button className="bulk-btn danger" onClick={onDelete} disabled={!hasSelection}>
+          Delete
+        </button>
+        <button className="bulk-btn" onClick={onDone}>
+          Done
+        </button>
+      </div>
+    </div>
+  );
+}
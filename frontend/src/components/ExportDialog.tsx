@@ -0,0 +1,118 @@
+import { useState } from 'react';
+import { ExportFormat } from '../types';
+import { exportNotes, ExportTagFilter } from '../api';
+
+interface ExportDialogProps {
+  // The tag filter of the notes list, so the export matches what is shown
+  tagFilter?: ExportTagFilter;
+  noteIds?: number[];
+  onClose: () => void;
+}
+
+export function ExportDialog({ tagFilter, noteIds, onClose }: ExportDialogProps) {
+  const [format, setFormat] = useState<ExportFormat>('markdown');
+  const [includeHistory, setIncludeHistory] = useState(false);
+  const [isExporting, setIsExporting] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const tags = tagFilter?.tags || [];
+  const excludeTags = tagFilter?.excludeTags || [];
+
+  const handleExport = async () => {
+    setIsExporting(true);
+    setError(null);
+    try {
+      const { blob, filename } = await exportNotes(format, includeHistory, tagFilter, noteIds);
+
+      // Hand the ZIP to the browser as a download
+      const url = URL.createObjectURL(blob);
+      const link = document.createElement('a');
+      link.href = url;
+      link.download = filename;
+      link.click();
+      URL.revokeObjectURL(url);
+
+      onClose();
+    } catch (err) {
+      console.error('Error exporting notes:', err);
+      setError('Failed to export notes.');
+    } finally {
+      setIsExporting(false);
+    }
+  };
+
+  return (
+    <>
+      <div className="modal-overlay" onClick={onClose} />
+
+      <div className="modal">
+        <div className="modal-header">
+          <h2>Export Notes</h2>
+          <button className="close-btn" onClick={onClose} aria-label="Close export">
+            <svg width="24" height="24" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2">
+              <line x1="18" y1="6" x2="6" y2="18" />
+              <line x1="6" y1="6" x2="18" y2="18" />
+            </svg>
+          </button>
+        </div>
+
+        <div className="modal-content">
+          {error && <div className="error-message">{error}</div>}
+
+          <div className="modal-section">
+            <h3>Format</h3>
+            <label className="modal-option">
+              <input
+                type="radio"
+                checked={format === 'markdown'}
+                onChange={() => setFormat('markdown')}
+              />
+              Markdown — one .md file per note, tags as front-matter
+            </label>
+            <label className="modal-option">
+              <input
+                type="radio"
+                checked={format === 'json'}
+                onChange={() => setFormat('json')}
+              />
+              JSON — a single notes.json (can be imported back)
+            </label>
+          </div>
+
+          <div className="modal-section">
+            <h3>Options</h3>
+            <label className="modal-option">
+              <input
+                type="checkbox"
+                checked={includeHistory}
+                onChange={(e) => setIncludeHistory(e.target.checked)}
+              />
+              Include full version history
+            </label>
+            {noteIds ? (
+              <p className="modal-hint">
+                Only the {noteIds.length} selected {noteIds.length === 1 ? 'note' : 'notes'}.
+              </p>
+            ) : tags.length > 0 || excludeTags.length > 0 ? (
+              <p className="modal-hint">
+                {tags.length > 0 && `Only notes tagged ${tags.join(tagFilter?.tagMode === 'and' ? ' and ' : ' or ')}. `}
+                {excludeTags.length > 0 && `Leaving out notes tagged ${excludeTags.join(', ')}.`}
+              </p>
+            ) : (
+              <p className="modal-hint">All notes will be exported.</p>
+            )}
+          </div>
+        </div>
+
+        <div className="modal-actions">
+          <button className="cancel-btn" onClick={onClose} disabled={isExporting}>
+            Cancel
+          </button>
+          <button className="modal-primary-btn" onClick={handleExport} disabled={isExporting}>
+            {isExporting ? 'Exporting...' : 'Download ZIP'}
+          </button>
+        </div>
+      </div>
+    </>
+  );
+}
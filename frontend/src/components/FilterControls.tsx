@@ -1,5 +1,21 @@
 import { useState } from 'react';
-import { Tag, NoteFilters } from '../types';
+import axios from 'axios';
+import { Tag, NoteFilters, TagMatchMode, SavedView } from '../types';
+import { getSavedViews, createSavedView, updateSavedView, deleteSavedView } from '../api';
+
+type DateFilterKey = 'createdFrom' | 'createdTo' | 'updatedFrom' | 'updatedTo';
+
+const pad = (value: number) => String(value).padStart(2, '0');
+
+// Date inputs work in local YYYY-MM-DD while filters carry ISO timestamps
+const toDateInput = (iso?: string): string => {
+  if (!iso) return '';
+  const date = new Date(iso);
+  return `${date.getFullYear()}-${pad(date.getMonth() + 1)}-${pad(date.getDate())}`;
+};
+
+const startOfDay = (value: string) => new Date(`${value}T00:00:00`).toISOString();
+const endOfDay = (value: string) => new Date(`${value}T23:59:59.999`).toISOString();
 
 interface FilterControlsProps {
   tags: Tag[];
@@ -10,21 +26,125 @@ interface FilterControlsProps {
 export function FilterControls({ tags, filters, onFiltersChange }: FilterControlsProps) {
   const [isOpen, setIsOpen] = useState(false);
   const [tempFilters, setTempFilters] = useState<NoteFilters>(filters);
+  const [savedViews, setSavedViews] = useState<SavedView[]>([]);
+  const [viewName, setViewName] = useState('');
+  const [viewError, setViewError] = useState<string | null>(null);
 
   const openFlyout = () => {
     setTempFilters(filters); // Sync with current filters when opening
     setIsOpen(true);
+    loadSavedViews();
+  };
+
+  const loadSavedViews = async () => {
+    try {
+      setSavedViews(await getSavedViews());
+    } catch (err) {
+      console.error('Error loading saved views:', err);
+    }
+  };
+
+  const applyView = (view: SavedView) => {
+    onFiltersChange({ sortBy: 'created_at', sortOrder: 'desc', ...view.filters });
+    setIsOpen(false);
+  };
+
+  const handleSaveView = async () => {
+    const name = viewName.trim();
+    if (!name) return;
+
+    setViewError(null);
+    try {
+      await createSavedView(name, tempFilters);
+    } catch (err) {
+      const existing = savedViews.find(view => view.name === name);
+      if (!(axios.isAxiosError(err) && err.response?.status === 409 && existing)) {
+        console.error('Error saving view:', err);
+        setViewError('Failed to save view.');
+        return;
+      }
+      if (!confirm(`Replace the saved view "${name}" with these filters?`)) {
+        return;
+      }
+      try {
+        await updateSavedView(existing.id, name, tempFilters);
+      } catch (updateErr) {
+        console.error('Error saving view:', updateErr);
+        setViewError('Failed to save view.');
+        return;
+      }
+    }
+
+    setViewName('');
+    await loadSavedViews();
   };
 
+  const handleDeleteView = async (view: SavedView) => {
+    if (!confirm(`Delete the saved view "${view.name}"?`)) {
+      return;
+    }
+
+    try {
+      await deleteSavedView(view.id);
+      await loadSavedViews();
+    } catch (err) {
+      console.error('Error deleting view:', err);
+      setViewError('Failed to delete view.');
+    }
+  };
+
+  // Each chip cycles: off → include → exclude → off
   const toggleTag = (tagName: string) => {
-    const currentTags = tempFilters.tags || [];
-    const newTags = currentTags.includes(tagName)
-      ? currentTags.filter(t => t !== tagName)
-      : [...currentTags, tagName];
+    const includedTags = tempFilters.tags || [];
+    const excludedTags = tempFilters.excludeTags || [];
+
+    let newIncluded = includedTags.filter(t => t !== tagName);
+    let newExcluded = excludedTags.filter(t => t !== tagName);
+
+    if (includedTags.includes(tagName)) {
+      newExcluded = [...newExcluded, tagName];
+    } else if (!excludedTags.includes(tagName)) {
+      newIncluded = [...newIncluded, tagName];
+    }
+
+    setTempFilters({
+      ...tempFilters,
+      tags: newIncluded.length > 0 ? newIncluded : undefined,
+      excludeTags: newExcluded.length > 0 ? newExcluded : undefined,
+    });
+  };
+
+  const handleTagModeChange = (tagMode: TagMatchMode) => {
+    setTempFilters({ ...tempFilters, tagMode });
+  };
 
+  const tagFilterState = (tagName: string): string => {
+    if (tempFilters.tags?.includes(tagName)) return 'active';
+    if (tempFilters.excludeTags?.includes(tagName)) return 'excluded';
+    return '';
+  };
+
+  // "To" dates cover the whole selected day
+  const handleDateChange = (key: DateFilterKey, value: string) => {
+    const toTimestamp = key.endsWith('To') ? endOfDay : startOfDay;
+    setTempFilters({ ...tempFilters, [key]: value ? toTimestamp(value) : undefined });
+  };
+
+  const showLastWeek = () => {
+    const weekAgo = new Date();
+    weekAgo.setDate(weekAgo.getDate() - 6);
     setTempFilters({
       ...tempFilters,
-      tags: newTags.length > 0 ? newTags : undefined,
+      createdFrom: startOfDay(toDateInput(weekAgo.toISOString())),
+      createdTo: undefined,
+    });
+  };
+
+  const handleMoreThanVersionsChange = (value: string) => {
+    const count = parseInt(value);
+    setTempFilters({
+      ...tempFilters,
+      moreThanVersions: isNaN(count) || count < 0 ? undefined : count,
     });
   };
 
@@ -37,7 +157,10 @@ export function FilterControls({ tags, filters, onFiltersChange }: FilterControl
   };
 
   const clearFilters = () => {
+    // Keep the search box query; it is managed outside the flyout
     setTempFilters({
+      q: tempFilters.q,
+      includeHistory: tempFilters.includeHistory,
       sortBy: 'created_at',
       sortOrder: 'desc',
     });
@@ -53,7 +176,12 @@ export function FilterControls({ tags, filters, onFiltersChange }: FilterControl
     setIsOpen(false);
   };
 
-  const hasActiveFilters = (tempFilters.tags && tempFilters.tags.length > 0);
+  const hasActiveFilters = (tempFilters.tags && tempFilters.tags.length > 0)
+    || (tempFilters.excludeTags && tempFilters.excludeTags.length > 0)
+    || tempFilters.untagged
+    || tempFilters.createdFrom || tempFilters.createdTo
+    || tempFilters.updatedFrom || tempFilters.updatedTo
+    || tempFilters.moreThanVersions !== undefined;
 
   return (
     <>
@@ -74,8 +202,61 @@ export function FilterControls({ tags, filters, onFiltersChange }: FilterControl
         </div>
 
         <div className="filter-flyout-content">
+          <div className="filter-section">
+            <h3>Saved Views</h3>
+            {savedViews.length === 0 ? (
+              <span className="no-tags">No saved views yet.</span>
+            ) : (
+              <div className="saved-views">
+                {savedViews.map((view) => (
+                  <div key={view.id} className="saved-view">
+                    <button className="saved-view-apply" onClick={() => applyView(view)}>
+                      {view.name}
+                    </button>
+                    <button
+                      className="saved-view-delete"
+                      onClick={() => handleDeleteView(view)}
+                      aria-label={`Delete view ${view.name}`}
+                    >
+                      ×
+                    </button>
+                  </div>
+                ))}
+              </div>
+            )}
+            <div className="save-view-form">
+              <input
+                type="text"
+                value={viewName}
+                onChange={(e) => setViewName(e.target.value)}
+                onKeyDown={(e) => e.key === 'Enter' && handleSaveView()}
+                placeholder="Name these filters..."
+                maxLength={100}
+              />
+              <button onClick={handleSaveView} disabled={!viewName.trim()}>
+                Save
+              </button>
+            </div>
+            {viewError && <div className="error-message">{viewError}</div>}
+          </div>
+
           <div className="filter-section">
             <h3>Filter by Tags</h3>
+            <div className="tag-mode-toggle">
+              <span>Match</span>
+              <button
+                className={tempFilters.tagMode !== 'and' ? 'active' : ''}
+                onClick={() => handleTagModeChange('or')}
+              >
+                Any tag
+              </button>
+              <button
+                className={tempFilters.tagMode === 'and' ? 'active' : ''}
+                onClick={() => handleTagModeChange('and')}
+              >
+                All tags
+              </button>
+            </div>
             <div className="tag-filters">
               {tags.length === 0 ? (
                 <span className="no-tags">No tags yet. Create some notes!</span>
@@ -83,14 +264,79 @@ export function FilterControls({ tags, filters, onFiltersChange }: FilterControl
                 tags.map((tag) => (
                   <button
                     key={tag.id}
-                    className={`tag-filter ${tempFilters.tags?.includes(tag.name) ? 'active' : ''}`}
+                    className={`tag-filter ${tagFilterState(tag.name)}`}
                     onClick={() => toggleTag(tag.name)}
+                    title="Click to include, again to exclude, again to clear"
                   >
-                    {tag.name}
+                    {tagFilterState(tag.name) === 'excluded' && '− '}{tag.name}
                   </button>
                 ))
               )}
             </div>
+            {tags.length > 0 && (
+              <p className="filter-hint">Tap a tag to include it, tap again to exclude it.</p>
+            )}
+          </div>
+
+          <div className="filter-section">
+            <h3>Dates</h3>
+            <div className="date-filters">
+              <span className="date-filter-label">Created</span>
+              <input
+                type="date"
+                value={toDateInput(tempFilters.createdFrom)}
+                onChange={(e) => handleDateChange('createdFrom', e.target.value)}
+                aria-label="Created from"
+              />
+              <span className="date-filter-separator">to</span>
+              <input
+                type="date"
+                value={toDateInput(tempFilters.createdTo)}
+                onChange={(e) => handleDateChange('createdTo', e.target.value)}
+                aria-label="Created to"
+              />
+
+              <span className="date-filter-label">Updated</span>
+              <input
+                type="date"
+                value={toDateInput(tempFilters.updatedFrom)}
+                onChange={(e) => handleDateChange('updatedFrom', e.target.value)}
+                aria-label="Updated from"
+              />
+              <span className="date-filter-separator">to</span>
+              <input
+                type="date"
+                value={toDateInput(tempFilters.updatedTo)}
+                onChange={(e) => handleDateChange('updatedTo', e.target.value)}
+                aria-label="Updated to"
+              />
+            </div>
+            <button className="date-preset-btn" onClick={showLastWeek}>
+              Created in the last 7 days
+            </button>
+          </div>
+
+          <div className="filter-section">
+            <h3>More</h3>
+            <label className="filter-option">
+              <input
+                type="checkbox"
+                checked={tempFilters.untagged || false}
+                onChange={(e) => setTempFilters({ ...tempFilters, untagged: e.target.checked || undefined })}
+              />
+              Untagged notes only
+            </label>
+            <label className="filter-option">
+              More than
+              <input
+                type="number"
+                min="0"
+                className="versions-input"
+                value={tempFilters.moreThanVersions ?? ''}
+                onChange={(e) => handleMoreThanVersionsChange(e.target.value)}
+              />
+              versions
+            </label>
           </div>
 
           <div className="filter-section">
@@ -0,0 +1,162 @@
+import { useState } from 'react';
+import { ImportReport } from '../types';
+import { importNotes } from '../api';
+
+interface ImportDialogProps {
+  onClose: () => void;
+  onImported: () => void;
+}
+
+const ACCEPTED_FILES = '.zip,.md,.markdown,.txt,.json,.enex';
+
+export function ImportDialog({ onClose, onImported }: ImportDialogProps) {
+  const [files, setFiles] = useState<File[]>([]);
+  const [report, setReport] = useState<ImportReport | null>(null);
+  const [isWorking, setIsWorking] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  // Run a dry run as soon as files are picked so the user can review before importing
+  const handleFilesChange = async (selected: File[]) => {
+    setFiles(selected);
+    setReport(null);
+    setError(null);
+    if (selected.length === 0) return;
+
+    setIsWorking(true);
+    try {
+      setReport(await importNotes(selected, true));
+    } catch (err) {
+      console.error('Error previewing import:', err);
+      setError('Failed to read the selected files.');
+    } finally {
+      setIsWorking(false);
+    }
+  };
+
+  const handleImport = async () => {
+    setIsWorking(true);
+    setError(null);
+    try {
+      setReport(await importNotes(files, false));
+      onImported();
+    } catch (err) {
+      console.error('Error importing notes:', err);
+      setError('Failed to import notes.');
+    } finally {
+      setIsWorking(false);
+    }
+  };
+
+  const isDone = report !== null && !report.dry_run;
+
+  return (
+    <>
+      <div className="modal-overlay" onClick={onClose} />
+
+      <div className="modal">
+        <div className="modal-header">
+          <h2>Import Notes</h2>
+          <button className="close-btn" onClick={onClose} aria-label="Close import">
+            <svg width="24" height="24" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2">
+              <line x1="18" y1="6" x2="6" y2="18" />
+              <line x1="6" y1="6" x2="18" y2="18" />
+            </svg>
+          </button>
+        </div>
+
+        <div className="modal-content">
+          {error && <div className="error-message">{error}</div>}
+
+          {!isDone && (
+            <div className="modal-section">
+              <h3>Files</h3>
+              <input
+                type="file"
+                multiple
+                accept={ACCEPTED_FILES}
+                onChange={(e) => handleFilesChange(Array.from(e.target.files || []))}
+                disabled={isWorking}
+              />
+              <p className="modal-hint">
+                ZIP of Markdown files (YAML front-matter for tags and dates), an OmniRambles export,
+                a Google Keep Takeout ZIP, or Evernote .enex files. Up to 4 files of 50 MB each.
+              </p>
+            </div>
+          )}
+
+          {isWorking && !report && <p className="modal-hint">Reading files...</p>}
+
+          {report && (
+            <div className="modal-section">
+              <h3>{isDone ? 'Imported' : 'Preview'}</h3>
+              <p className="import-summary">
+                {isDone ? 'Created' : 'Will create'} {report.notes_created}{' '}
+                {report.notes_created === 1 ? 'note' : 'notes'} with {report.versions_created}{' '}
+                {report.versions_created === 1 ? 'version' : 'versions'}
+                {report.tags_created.length > 0 && ` and ${report.tags_created.length} new tags`}.
+              </p>
+
+              {report.tags_created.length > 0 && (
+                <div className="import-tags">
+                  {report.tags_created.map((tag) => (
+                    <span key={tag} className="tag">{tag}</span>
+                  ))}
+                </div>
+              )}
+
+              {report.notes.length > 0 && (
+                <ul className="import-list">
+                  {report.notes.map((note, i) => (
+                    <li key={i}>
+                      <span className="import-title">{note.title}</span>
+                      <span className="import-meta">
+                        {new Date(note.created_at).toLocaleDateString()}
+                        {note.versions > 1 && ` · ${note.versions} versions`}
+                        {note.tags.length > 0 && ` · ${note.tags.join(', ')}`}
+                      </span>
+                    </li>
+                  ))}
+                </ul>
+              )}
+
+              {report.skipped.length > 0 && (
+                <>
+                  <h3>Skipped</h3>
+                  <ul className="import-list skipped">
+                    {report.skipped.map((skipped, i) => (
+                      <li key={i}>
+                        <span className="import-title">{skipped.source}</span>
+                        <span className="import-meta">{skipped.reason}</span>
+                      </li>
+                    ))}
+                  </ul>
+                </>
+              )}
+            </div>
+          )}
+        </div>
+
+        <div className="modal-actions">
+          {isDone ? (
+            <button className="modal-primary-btn" onClick={onClose}>
+              Done
+            </button>
+          ) : (
+            <>
+              <button className="cancel-btn" onClick={onClose} disabled={isWorking}>
+                Cancel
+              </button>
+              <button
+                className="modal-primary-btn"
+                onClick={handleImport}
+                disabled={isWorking || !report || report.notes_created === 0}
+              >
+                {isWorking && report ? 'Importing...' : 'Import'}
+              </button>
+            </>
+          )}
+        </div>
+      </div>
+    </>
+  );
+}
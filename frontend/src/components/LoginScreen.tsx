@@ -0,0 +1,86 @@
+import { useState } from 'react';
+import axios from 'axios';
+import { User } from '../types';
+import { login, register } from '../api';
+
+interface LoginScreenProps {
+  onLogin: (user: User) => void;
+}
+
+type AuthMode = 'login' | 'register';
+
+export function LoginScreen({ onLogin }: LoginScreenProps) {
+  const [mode, setMode] = useState<AuthMode>('login');
+  const [username, setUsername] = useState('');
+  const [password, setPassword] = useState('');
+  const [isSubmitting, setIsSubmitting] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setIsSubmitting(true);
+    setError(null);
+    try {
+      const user = mode === 'login'
+        ? await login(username.trim(), password)
+        : await register(username.trim(), password);
+      onLogin(user);
+    } catch (err) {
+      console.error('Error authenticating:', err);
+      // Show the server's validation message when there is one
+      if (axios.isAxiosError(err) && err.response?.data?.error) {
+        setError(err.response.data.error);
+      } else {
+        setError('Failed to reach the server. Make sure the backend is running.');
+      }
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  const toggleMode = () => {
+    setMode(mode === 'login' ? 'register' : 'login');
+    setError(null);
+  };
+
+  return (
+    <div className="login-screen">
+      <form className="login-form" onSubmit={handleSubmit}>
+        <h1>OmniRambles</h1>
+        <h2>{mode === 'login' ? 'Log in' : 'Create account'}</h2>
+
+        {error && <div className="error-message">{error}</div>}
+
+        <input
+          type="text"
+          value={username}
+          onChange={(e) => setUsername(e.target.value)}
+          placeholder="Username"
+          autoComplete="username"
+          autoFocus
+          disabled={isSubmitting}
+        />
+        <input
+          type="password"
+          value={password}
+          onChange={(e) => setPassword(e.target.value)}
+          placeholder="Password"
+          autoComplete={mode === 'login' ? 'current-password' : 'new-password'}
+          disabled={isSubmitting}
+        />
+
+        <button
+          type="submit"
+          className="login-submit-btn"
+          disabled={isSubmitting || !username.trim() || !password}
+        >
+          {isSubmitting ? 'Please wait...' : mode === 'login' ? 'Log in' : 'Create account'}
+        </button>
+
+        <button type="button" className="login-toggle-btn" onClick={toggleMode}>
+          {mode === 'login' ? 'Need an account? Register' : 'Already have an account? Log in'}
+        </button>
+      </form>
+    </div>
+  );
+}
@@ -0,0 +1,43 @@
+import { useMemo } from 'react';
+import { renderMarkdown } from '../markdown';
+import { parseChecklist } from '../checklist';
+
+interface MarkdownContentProps {
+  content: string;
+  className?: string;
+  // Makes task list checkboxes clickable; line is the item's source line, numbered from 0
+  onToggleTask?: (line: number, checked: boolean) => void;
+}
+
+export function MarkdownContent({ content, className = '', onToggleTask }: MarkdownContentProps) {
+  const html = useMemo(() => renderMarkdown(content, Boolean(onToggleTask)), [content, Boolean(onToggleTask)]);
+
+  // Let links and checkboxes work without also triggering click handlers on the surrounding card
+  const handleClick = (e: React.MouseEvent<HTMLDivElement>) => {
+    const target = e.target as HTMLElement;
+    if (target.closest('a')) {
+      e.stopPropagation();
+      return;
+    }
+
+    if (onToggleTask && target instanceof HTMLInputElement && target.classList.contains('task-checkbox')) {
+      e.stopPropagation();
+      // During the click the box already shows its new state; cancelling puts it back until the
+      // updated content is rendered
+      const checked = target.checked;
+      e.preventDefault();
+      // Boxes are drawn in the order the checklist lexer finds the items
+      const checkboxes = Array.from(e.currentTarget.querySelectorAll('input.task-checkbox'));
+      const item = parseChecklist(content)[checkboxes.indexOf(target)];
+      if (item) onToggleTask(item.line, checked);
+    }
+  };
+
+  return (
+    <div
+      className={`markdown-body ${className}`}
+      onClick={handleClick}
+      dangerouslySetInnerHTML={{ __html: html }}
+    />
+  );
+}
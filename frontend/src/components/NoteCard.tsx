@@ -1,12 +1,34 @@
+import { useMemo } from 'react';
 import { Note } from '../types';
+import { MarkdownContent } from './MarkdownContent';
+import { AttachmentStrip } from './AttachmentStrip';
+import { formatReminder, isReminderOverdue } from '../reminders';
+import { parseChecklist } from '../checklist';
+import { transcriptStatusLabel } from '../voice';
 
 interface NoteCardProps {
   note: Note;
   onDelete: (id: number) => void;
   onEdit: (note: Note) => void;
+  onTogglePin?: (note: Note) => void;
+  onToggleArchive?: (note: Note) => void;
+  onToggleChecklistItem?: (note: Note, line: number, checked: boolean) => void;
+  isSelecting?: boolean;
+  isSelected?: boolean;
+  onToggleSelect?: (id: number) => void;
 }
 
-export function NoteCard({ note, onDelete, onEdit }: NoteCardProps) {
+export function NoteCard({
+  note,
+  onDelete,
+  onEdit,
+  onTogglePin,
+  onToggleArchive,
+  onToggleChecklistItem,
+  isSelecting = false,
+  isSelected = false,
+  onToggleSelect,
+}: NoteCardProps) {
   const formatDate = (dateString: string) => {
     const date = new Date(dateString);
     const now = new Date();
@@ -23,25 +45,119 @@ export function NoteCard({ note, onDelete, onEdit }: NoteCardProps) {
     return date.toLocaleDateString();
   };
 
+  // Search snippets wrap matches in <mark>; split them out rather than injecting HTML
+  const renderSnippet = (snippet: string) => {
+    return snippet.split(/(<mark>.*?<\/mark>)/g).map((part, i) =>
+      part.startsWith('<mark>') ? <mark key={i}>{part.slice(6, -7)}</mark> : part
+    );
+  };
+
+  // A voice note is empty until its transcript arrives
+  const content = note.content || (note.transcript_status ? '*Voice note*' : '');
+  const checklist = useMemo(() => parseChecklist(note.content), [note.content]);
+  const checkedCount = checklist.filter((item) => item.checked).length;
+
   return (
-    <div className="note-card" onClick={() => onEdit(note)}>
+    <div
+      className={`note-card ${isSelected ? 'selected' : ''} ${note.pinned ? 'pinned' : ''}`}
+      onClick={() => (isSelecting ? onToggleSelect?.(note.id) : onEdit(note))}
+    >
       <div className="note-header">
         <span className="note-date">{formatDate(note.created_at)}</span>
         {note.current_version && note.current_version > 1 && (
           <span className="version-badge">v{note.current_version}</span>
         )}
-        <button
-          className="delete-btn"
-          onClick={(e) => {
-            e.stopPropagation();
-            onDelete(note.id);
-          }}
-          title="Delete note"
-        >
-          🗑️
-        </button>
+        {checklist.length > 0 && (
+          <span className={`checklist-badge ${checkedCount === checklist.length ? 'done' : ''}`} title="Checklist items done">
+            ☑ {checkedCount}/{checklist.length}
+          </span>
+        )}
+        {note.remind_at && (
+          <span
+            className={`reminder-badge ${isReminderOverdue(note) ? 'overdue' : ''} ${note.reminded_at ? 'done' : ''}`}
+            title={note.reminded_at ? 'Reminder sent' : 'Reminder'}
+          >
+            ⏰ {formatReminder(note.remind_at)}
+          </span>
+        )}
+        {note.transcript_status && note.transcript_status !== 'done' && (
+          <span
+            className={`transcript-badge ${note.transcript_status}`}
+            title={note.transcript_error || 'Voice note'}
+          >
+            🎙️ {transcriptStatusLabel(note.transcript_status)}
+          </span>
+        )}
+        {note.pending && (
+          <span className="pending-badge" title="Changed while offline; syncs when the server is reachable">
+            Not synced
+          </span>
+        )}
+        {isSelecting ? (
+          <input
+            type="checkbox"
+            className="note-select-checkbox"
+            checked={isSelected}
+            onClick={(e) => e.stopPropagation()}
+            onChange={() => onToggleSelect?.(note.id)}
+            aria-label="Select note"
+          />
+        ) : (
+          <div className="note-actions">
+            {onTogglePin && !note.archived && (
+              <button
+                className={`note-action-btn ${note.pinned ? 'active' : ''}`}
+                onClick={(e) => {
+                  e.stopPropagation();
+                  onTogglePin(note);
+                }}
+                title={note.pinned ? 'Unpin' : 'Pin to top'}
+              >
+                📌
+              </button>
+            )}
+            {onToggleArchive && (
+              <button
+                className="note-action-btn"
+                onClick={(e) => {
+                  e.stopPropagation();
+                  onToggleArchive(note);
+                }}
+                title={note.archived ? 'Move back to notes' : 'Archive'}
+              >
+                {note.archived ? '📤' : '🗄️'}
+              </button>
+            )}
+            <button
+              className="delete-btn"
+              onClick={(e) => {
+                e.stopPropagation();
+                onDelete(note.id);
+              }}
+              title="Move to trash"
+            >
+              🗑️
+            </button>
+          </div>
+        )}
       </div>
-      <div className="note-content">{note.content}</div>
+      {note.snippet ? (
+        <div className="note-content note-snippet">
+          {note.matched_history && <span className="history-match-badge">Older version</span>}
+          {renderSnippet(note.snippet)}
+        </div>
+      ) : (
+        <MarkdownContent
+          content={content}
+          className="note-content"
+          onToggleTask={
+            onToggleChecklistItem && !isSelecting && note.id > 0
+              ? (line, checked) => onToggleChecklistItem(note, line, checked)
+              : undefined
+          }
+        />
+      )}
+      {note.attachments && note.attachments.length > 0 && <AttachmentStrip attachments={note.attachments} />}
       {note.tags && note.tags.length > 0 && (
         <div className="note-tags">
           {note.tags.map((tag) => (
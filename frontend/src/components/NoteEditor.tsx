@@ -1,28 +1,97 @@
-import { useState, useEffect } from 'react';
-import { Note, NoteVersion, Tag } from '../types';
-import { updateNote, getNoteVersions, addTagToNote, removeTagFromNote } from '../api';
+import { useState, useEffect, useRef } from 'react';
+import { Note, NoteConflict, NoteVersion, OfflineConflict, Tag, TagSuggestion } from '../types';
+import { updateNote, getNoteConflict, getDraft, getNoteVersions, restoreNoteVersion, addTagToNote, removeTagFromNote, suggestTags, setNoteReminder } from '../api';
+import { enableReminderNotifications } from '../notifications';
+import { formatReminder, reminderPresets, toDateTimeLocal } from '../reminders';
+import { setChecklistItemChecked } from '../checklist';
+import { useDraftAutosave } from '../drafts';
+import { VersionDiff } from './VersionDiff';
+import { AttachmentManager } from './AttachmentManager';
+import { MarkdownContent } from './MarkdownContent';
 import './NoteEditor.css';
 
+type EditorMode = 'edit' | 'split' | 'preview';
+
 interface NoteEditorProps {
   note: Note;
   allTags: Tag[];
   onClose: () => void;
   onUpdate: () => void;
+  // Called with the note once an edit is saved, e.g. to propose tags for the new content
+  onSaved?: (note: Note) => void;
+  // Opens straight into the conflict view with an offline edit the server rejected
+  offlineConflict?: OfflineConflict;
 }
 
-export function NoteEditor({ note, allTags, onClose, onUpdate }: NoteEditorProps) {
-  const [content, setContent] = useState(note.content);
+export function NoteEditor({ note, allTags, onClose, onUpdate, onSaved, offlineConflict }: NoteEditorProps) {
+  const [content, setContent] = useState(offlineConflict?.content ?? note.content);
+  // Saved text the edit started from; moves forward when a conflict is resolved
+  const [baseContent, setBaseContent] = useState(note.content);
+  const [conflict, setConflict] = useState<NoteConflict | null>(offlineConflict?.conflict ?? null);
   const [versions, setVersions] = useState<NoteVersion[]>([]);
   const [currentVersion, setCurrentVersion] = useState<number>(note.current_version || 1);
+  // Checklist ticks change the note without a new version, so saves check the revision too
+  const [baseRevision, setBaseRevision] = useState(note.revision);
   const [viewingVersion, setViewingVersion] = useState<NoteVersion | null>(null);
   const [isLoadingVersions, setIsLoadingVersions] = useState(false);
+  const [showDiff, setShowDiff] = useState(false);
+  const [mode, setMode] = useState<EditorMode>('edit');
   const [isSaving, setIsSaving] = useState(false);
   const [showTagDropdown, setShowTagDropdown] = useState(false);
   const [newTagInput, setNewTagInput] = useState('');
+  const [suggestions, setSuggestions] = useState<TagSuggestion[]>([]);
   const [error, setError] = useState<string | null>(null);
+  const [restoredDraftAt, setRestoredDraftAt] = useState<string | null>(null);
+  const [remindAt, setRemindAt] = useState<string | null>(note.remind_at ?? null);
+  const [reminderInput, setReminderInput] = useState(note.remind_at ? toDateTimeLocal(new Date(note.remind_at)) : '');
+  const [notificationsBlocked, setNotificationsBlocked] = useState(false);
+  // Older versions shown for viewing aren't edits, so they are never autosaved
+  const { draftStatus, flushDraft, discardDraft } = useDraftAutosave(
+    note.id > 0 && !viewingVersion ? note.id : null,
+    content,
+    baseContent,
+    currentVersion
+  );
+  const contentRef = useRef(content);
+  contentRef.current = content;
+
+  // Notes created offline have no history on the server yet
+  useEffect(() => {
+    if (note.id > 0) loadVersions();
+  }, [note.id]);
+
+  // A voice note's transcript arriving while it's open replaces the text, unless that has been edited
+  useEffect(() => {
+    if (!note.transcript_status || !note.current_version || note.current_version <= currentVersion) return;
+    if (contentRef.current !== baseContent) return;
+
+    setContent(note.content);
+    setBaseContent(note.content);
+    setCurrentVersion(note.current_version);
+    setBaseRevision(note.revision);
+  }, [note.current_version]);
 
+  // Reopen unsaved changes; a draft started from an older version goes straight to the conflict view
   useEffect(() => {
-    loadVersions();
+    if (note.id < 0 || offlineConflict) return;
+
+    getDraft(note.id)
+      .then((draft) => {
+        if (!draft || draft.content.trim() === note.content.trim() || contentRef.current !== note.content) return;
+        setContent(draft.content);
+        setRestoredDraftAt(draft.updated_at);
+
+        const latestVersion = note.current_version || 1;
+        if (draft.base_version && draft.base_version < latestVersion) {
+          setConflict({
+            error: 'Draft was started from an older version',
+            base_version: draft.base_version,
+            current_version: latestVersion,
+            note,
+          });
+        }
+      })
+      .catch((err) => console.error('Error loading draft:', err));
   }, [note.id]);
 
   const loadVersions = async () => {
@@ -41,7 +110,7 @@ export function NoteEditor({ note, allTags, onClose, onUpdate }: NoteEditorProps
   };
 
   const handleSave = async () => {
-    if (content.trim() === note.content) {
+    if (content.trim() === baseContent) {
       setError('No changes to save');
       return;
     }
@@ -49,12 +118,19 @@ export function NoteEditor({ note, allTags, onClose, onUpdate }: NoteEditorProps
     setIsSaving(true);
     setError(null);
     try {
-      await updateNote(note.id, content.trim());
+      const saved = await updateNote(note.id, content.trim(), currentVersion, baseRevision);
+      await discardDraft();
       await loadVersions();
       setCurrentVersion(currentVersion + 1);
       onUpdate();
+      onSaved?.(saved);
       onClose();
     } catch (err) {
+      const latest = getNoteConflict(err);
+      if (latest) {
+        setConflict(latest);
+        return;
+      }
       console.error('Error saving note:', err);
       setError('Failed to save note');
     } finally {
@@ -62,19 +138,102 @@ export function NoteEditor({ note, allTags, onClose, onUpdate }: NoteEditorProps
     }
   };
 
+  // Someone else saved first: either rebase onto their version and save ours, or take theirs
+  const handleKeepMine = async () => {
+    if (!conflict) return;
+    setCurrentVersion(conflict.current_version);
+    setBaseRevision(conflict.note.revision);
+    setBaseContent(conflict.note.content);
+    setConflict(null);
+
+    setIsSaving(true);
+    setError(null);
+    try {
+      const saved = await updateNote(note.id, content.trim(), conflict.current_version, conflict.note.revision);
+      await discardDraft();
+      onUpdate();
+      onSaved?.(saved);
+      onClose();
+    } catch (err) {
+      const latest = getNoteConflict(err);
+      if (latest) {
+        setConflict(latest);
+        return;
+      }
+      console.error('Error saving note:', err);
+      setError('Failed to save note');
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const handleUseLatest = async () => {
+    if (!conflict) return;
+    setContent(conflict.note.content);
+    setBaseContent(conflict.note.content);
+    setCurrentVersion(conflict.current_version);
+    setBaseRevision(conflict.note.revision);
+    setConflict(null);
+    setRestoredDraftAt(null);
+    await loadVersions();
+    onUpdate();
+  };
+
   const handleViewVersion = (version: NoteVersion) => {
     setViewingVersion(version);
     setContent(version.content);
   };
 
+  const handleRestoreVersion = async (version: NoteVersion) => {
+    setIsSaving(true);
+    setError(null);
+    try {
+      await restoreNoteVersion(note.id, version.version);
+      await discardDraft();
+      onUpdate();
+      onClose();
+    } catch (err) {
+      console.error('Error restoring version:', err);
+      setError('Failed to restore version');
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  // Closing keeps unsaved text as a draft for next time
+  const handleClose = () => {
+    flushDraft();
+    onClose();
+  };
+
+  const handleDiscardDraft = () => {
+    discardDraft();
+    setContent(baseContent);
+    setConflict(null);
+    setRestoredDraftAt(null);
+  };
+
   const handleBackToCurrent = () => {
     setViewingVersion(null);
-    setContent(note.content);
+    setContent(baseContent);
+  };
+
+  // Suggestions follow the text being edited, not just the saved version
+  const handleToggleTagDropdown = async () => {
+    const opening = !showTagDropdown;
+    setShowTagDropdown(opening);
+    if (!opening) return;
+
+    try {
+      setSuggestions(await suggestTags(content, note.id > 0 ? note.id : undefined));
+    } catch (err) {
+      console.error('Error suggesting tags:', err);
+    }
   };
 
-  const handleAddTag = async (tagName: string) => {
+  const handleAddTag = async (tagName: string, source: 'AI' | 'Self' = 'Self') => {
     try {
-      await addTagToNote(note.id, tagName, 'Self');
+      await addTagToNote(note.id, tagName, source);
       onUpdate();
       setShowTagDropdown(false);
       setNewTagInput('');
@@ -100,13 +259,30 @@ export function NoteEditor({ note, allTags, onClose, onUpdate }: NoteEditorProps
     }
   };
 
+  // The reminder is saved straight away, separately from the note's text
+  const handleSetReminder = async (date: Date | null) => {
+    setError(null);
+    try {
+      const updated = await setNoteReminder(note.id, date ? date.toISOString() : null);
+      setRemindAt(updated.remind_at ?? null);
+      setReminderInput(date ? toDateTimeLocal(date) : '');
+      onUpdate();
+      if (date) {
+        setNotificationsBlocked(!(await enableReminderNotifications()));
+      }
+    } catch (err) {
+      console.error('Error setting reminder:', err);
+      setError('Failed to set reminder');
+    }
+  };
+
   // Filter out tags already on this note
   const availableTags = allTags.filter(
     tag => !note.tags?.some(noteTag => noteTag.id === tag.id)
   );
 
   return (
-    <div className="note-editor-overlay" onClick={onClose}>
+    <div className="note-editor-overlay" onClick={handleClose}>
       <div className="note-editor" onClick={(e) => e.stopPropagation()}>
         <div className="note-editor-header">
           <h2>Edit Note</h2>
@@ -119,43 +295,178 @@ export function NoteEditor({ note, allTags, onClose, onUpdate }: NoteEditorProps
               <span className="current-version">Current: v{currentVersion}</span>
             )}
           </div>
-          <button className="close-btn" onClick={onClose}>×</button>
+          <button className="close-btn" onClick={handleClose}>×</button>
         </div>
 
         {error && <div className="error-message">{error}</div>}
+        {restoredDraftAt && (
+          <div className="draft-notice">
+            <span>Restored unsaved changes from {new Date(restoredDraftAt).toLocaleString()}.</span>
+            <button className="draft-discard-btn" onClick={handleDiscardDraft} disabled={isSaving}>
+              Discard draft
+            </button>
+          </div>
+        )}
 
         <div className="note-editor-body">
-          <textarea
-            value={content}
-            onChange={(e) => setContent(e.target.value)}
-            disabled={viewingVersion !== null || isSaving}
-            rows={10}
-            className="note-editor-textarea"
-          />
-
-          <div className="note-editor-actions">
-            {viewingVersion ? (
-              <button onClick={handleBackToCurrent} className="back-btn">
-                Back to Current Version
-              </button>
-            ) : (
-              <button
-                onClick={handleSave}
-                disabled={isSaving || content.trim() === note.content}
-                className="save-btn"
-              >
-                {isSaving ? 'Saving...' : 'Save as New Version'}
-              </button>
-            )}
+          <div className="editor-mode-toggle">
+            <button className={mode === 'edit' ? 'active' : ''} onClick={() => setMode('edit')}>
+              Edit
+            </button>
+            <button className={mode === 'split' ? 'active' : ''} onClick={() => setMode('split')}>
+              Split
+            </button>
+            <button className={mode === 'preview' ? 'active' : ''} onClick={() => setMode('preview')}>
+              Preview
+            </button>
           </div>
 
+          {conflict && (
+            <div className="conflict-view">
+              <p className="conflict-message">
+                This note was changed somewhere else while you were editing (now v{conflict.current_version}).
+                Edit your version below if you want to combine them, then choose which to keep.
+              </p>
+              <div className="conflict-panes">
+                <div className="conflict-pane">
+                  <h4>Your version</h4>
+                  <textarea
+                    value={content}
+                    onChange={(e) => setContent(e.target.value)}
+                    disabled={isSaving}
+                    className="note-editor-textarea"
+                  />
+                </div>
+                <div className="conflict-pane">
+                  <h4>Latest saved (v{conflict.current_version})</h4>
+                  <div className="conflict-latest">{conflict.note.content}</div>
+                </div>
+              </div>
+              <div className="note-editor-actions">
+                <button onClick={handleKeepMine} disabled={isSaving || !content.trim()} className="save-btn">
+                  {isSaving ? 'Saving...' : `Save mine as v${conflict.current_version + 1}`}
+                </button>
+                <button onClick={handleUseLatest} disabled={isSaving} className="back-btn">
+                  Discard mine, use latest
+                </button>
+              </div>
+            </div>
+          )}
+
+          {!conflict && (
+            <>
+              <div className={`note-editor-panes mode-${mode}`}>
+                {mode !== 'preview' && (
+                  <textarea
+                    value={content}
+                    onChange={(e) => setContent(e.target.value)}
+                    disabled={viewingVersion !== null || isSaving}
+                    rows={10}
+                    className="note-editor-textarea"
+                  />
+                )}
+                {mode !== 'edit' && (
+                  <MarkdownContent
+                    content={content}
+                    className="note-editor-preview"
+                    onToggleTask={
+                      viewingVersion || isSaving
+                        ? undefined
+                        : (line, checked) => setContent((current) => setChecklistItemChecked(current, line, checked) ?? current)
+                    }
+                  />
+                )}
+              </div>
+
+              <div className="note-editor-actions">
+                {viewingVersion ? (
+                  <>
+                    <button onClick={handleBackToCurrent} className="back-btn">
+                      Back to Current Version
+                    </button>
+                    {viewingVersion.version !== currentVersion && (
+                      <button
+                        onClick={() => handleRestoreVersion(viewingVersion)}
+                        disabled={isSaving}
+                        className="restore-btn"
+                      >
+                        {isSaving ? 'Restoring...' : 'Restore this version'}
+                      </button>
+                    )}
+                  </>
+                ) : (
+                  <button
+                    onClick={handleSave}
+                    disabled={isSaving || content.trim() === baseContent}
+                    className="save-btn"
+                  >
+                    {isSaving ? 'Saving...' : 'Save as New Version'}
+                  </button>
+                )}
+                {draftStatus === 'saved' && <span className="draft-status">Draft saved</span>}
+                {draftStatus === 'error' && <span className="draft-status error">Draft not saved</span>}
+              </div>
+            </>
+          )}
+
+          {/* Reminder Section */}
+          {note.id > 0 && (
+            <div className="reminder-section">
+              <h3>Reminder</h3>
+              {remindAt && (
+                <p className="reminder-current">
+                  ⏰ {formatReminder(remindAt)}
+                  <button className="reminder-clear-btn" onClick={() => handleSetReminder(null)}>
+                    Clear
+                  </button>
+                </p>
+              )}
+              <div className="reminder-picker">
+                <input
+                  type="datetime-local"
+                  value={reminderInput}
+                  onChange={(e) => setReminderInput(e.target.value)}
+                />
+                <button
+                  className="reminder-set-btn"
+                  onClick={() => handleSetReminder(new Date(reminderInput))}
+                  disabled={!reminderInput}
+                >
+                  {remindAt ? 'Change' : 'Set'}
+                </button>
+              </div>
+              <div className="reminder-presets">
+                {reminderPresets().map((preset) => (
+                  <button key={preset.label} className="reminder-preset-btn" onClick={() => handleSetReminder(preset.date)}>
+                    {preset.label}
+                  </button>
+                ))}
+              </div>
+              {notificationsBlocked && (
+                <p className="reminder-hint">
+                  Notifications are blocked in this browser, so the reminder will only show in the Upcoming view.
+                </p>
+              )}
+            </div>
+          )}
+
+          {note.id > 0 && (
+            <AttachmentManager
+              noteId={note.id}
+              attachments={note.attachments || []}
+              transcriptStatus={note.transcript_status}
+              transcriptError={note.transcript_error}
+              onChange={onUpdate}
+            />
+          )}
+
           {/* Tag Management Section */}
           <div className="tag-management">
             <h3>Tags</h3>
             <div className="current-tags">
               {note.tags && note.tags.length > 0 ? (
                 note.tags.map((tag) => (
-                  <span key={tag.id} className="tag tag-self">
+                  <span key={tag.id} className={`tag tag-${tag.source.toLowerCase()}`}>
                     {tag.name}
                     <button
                       className="tag-remove-btn"
@@ -174,13 +485,30 @@ export function NoteEditor({ note, allTags, onClose, onUpdate }: NoteEditorProps
             <div className="add-tag-section">
               <button
                 className="add-tag-btn"
-                onClick={() => setShowTagDropdown(!showTagDropdown)}
+                onClick={handleToggleTagDropdown}
               >
                 + Add Tag
               </button>
 
               {showTagDropdown && (
                 <div className="tag-dropdown">
+                  {suggestions.length > 0 && (
+                    <div className="tag-dropdown-section">
+                      <h4>Suggested</h4>
+                      <div className="tag-list">
+                        {suggestions.map((suggestion) => (
+                          <button
+                            key={suggestion.name}
+                            className="tag-option suggested"
+                            onClick={() => handleAddTag(suggestion.name, 'AI')}
+                          >
+                            {suggestion.existing ? suggestion.name : `+ ${suggestion.name}`}
+                          </button>
+                        ))}
+                      </div>
+                    </div>
+                  )}
+
                   <div className="tag-dropdown-section">
                     <h4>Existing Tags</h4>
                     <div className="tag-list">
@@ -226,7 +554,21 @@ export function NoteEditor({ note, allTags, onClose, onUpdate }: NoteEditorProps
 
           {/* Version History Section */}
           <div className="version-history">
-            <h3>Version History</h3>
+            <div className="version-history-header">
+              <h3>Version History</h3>
+              {versions.length > 1 && !showDiff && (
+                <button className="compare-btn" onClick={() => setShowDiff(true)}>
+                  Compare versions
+                </button>
+              )}
+            </div>
+            {showDiff && (
+              <VersionDiff
+                noteId={note.id}
+                versions={versions}
+                onClose={() => setShowDiff(false)}
+              />
+            )}
             {isLoadingVersions ? (
               <p>Loading versions...</p>
             ) : versions.length > 0 ? (
@@ -245,6 +587,16 @@ export function NoteEditor({ note, allTags, onClose, onUpdate }: NoteEditorProps
                     <span className="version-date">
                       {new Date(version.created_at).toLocaleString()}
                     </span>
+                    {version.version !== currentVersion && (
+                      <button
+                        className="version-restore-btn"
+                        onClick={() => handleRestoreVersion(version)}
+                        disabled={isSaving}
+                        title={`Restore v${version.version} as a new version`}
+                      >
+                        Restore this version
+                      </button>
+                    )}
                   </div>
                 ))}
               </div>
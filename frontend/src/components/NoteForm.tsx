@@ -1,30 +1,85 @@
-import { useState } from 'react';
+import { useState, useEffect, useRef } from 'react';
+import { getDraft } from '../api';
+import { useDraftAutosave } from '../drafts';
+import { isRecordingSupported, useVoiceRecorder, formatDuration, Recording } from '../voice';
+import { MarkdownContent } from './MarkdownContent';
 
 interface NoteFormProps {
-  onSubmit: (content: string) => Promise<void>;
+  // Resolves true once the note is saved; on failure the text stays in the form and its draft
+  onSubmit: (content: string) => Promise<boolean>;
+  // Saves a recording as a voice note, which the server transcribes; resolves true once uploaded
+  onRecord?: (recording: Recording) => Promise<boolean>;
   isLoading: boolean;
   onCancel?: () => void;
   onFocus?: () => void;
 }
 
-export function NoteForm({ onSubmit, isLoading, onCancel, onFocus }: NoteFormProps) {
+export function NoteForm({ onSubmit, onRecord, isLoading, onCancel, onFocus }: NoteFormProps) {
   const [content, setContent] = useState('');
+  const [isPreviewing, setIsPreviewing] = useState(false);
+  const [restoredDraftAt, setRestoredDraftAt] = useState<string | null>(null);
+  const [recordingError, setRecordingError] = useState<string | null>(null);
+  const { draftStatus, flushDraft, discardDraft } = useDraftAutosave('new', content, '');
+  const { isRecording, elapsedSeconds, startRecording, stopRecording, cancelRecording } = useVoiceRecorder();
+  const contentRef = useRef(content);
+  contentRef.current = content;
+
+  // Pick up where the last unsaved note left off, unless typing already started
+  useEffect(() => {
+    getDraft('new')
+      .then((draft) => {
+        if (!draft || !draft.content.trim() || contentRef.current) return;
+        setContent(draft.content);
+        setRestoredDraftAt(draft.updated_at);
+      })
+      .catch((err) => console.error('Error loading draft:', err));
+  }, []);
 
   const handleSubmit = async (e: React.FormEvent) => {
     e.preventDefault();
     if (content.trim()) {
-      await onSubmit(content.trim());
-      setContent('');
+      if (await onSubmit(content.trim())) {
+        await discardDraft();
+        setContent('');
+      }
+    }
+  };
+
+  const handleRecord = async () => {
+    setRecordingError(null);
+    if (!isRecording) {
+      try {
+        await startRecording();
+      } catch (err) {
+        console.error('Error starting recording:', err);
+        setRecordingError('Could not use the microphone. Check that this site is allowed to use it.');
+      }
+      return;
+    }
+
+    const recording = await stopRecording();
+    if (recording && onRecord) {
+      // Any typed text stays in the draft; the form may close once the voice note is saved
+      flushDraft();
+      await onRecord(recording);
     }
   };
 
+  // Cancelling keeps the draft, so the text comes back next time
   const handleCancel = () => {
-    setContent('');
+    cancelRecording();
+    flushDraft();
     if (onCancel) {
       onCancel();
     }
   };
 
+  const handleDiscardDraft = () => {
+    discardDraft();
+    setContent('');
+    setRestoredDraftAt(null);
+  };
+
   const handleFocus = () => {
     if (onFocus) {
       onFocus();
@@ -45,15 +100,49 @@ export function NoteForm({ onSubmit, isLoading, onCancel, onFocus }: NoteFormPro
         >
           ✕ Cancel
         </button>
+        <button
+          type="button"
+          className="preview-note-btn"
+          onClick={() => setIsPreviewing(!isPreviewing)}
+          disabled={isLoading}
+        >
+          {isPreviewing ? '✏️ Write' : '👁️ Preview'}
+        </button>
+        {onRecord && isRecordingSupported && (
+          <button
+            type="button"
+            className={`record-note-btn ${isRecording ? 'recording' : ''}`}
+            onClick={handleRecord}
+            disabled={isLoading}
+            title={isRecording ? 'Stop and save as a voice note' : 'Record a voice note'}
+          >
+            {isRecording ? `⏹️ Stop ${formatDuration(elapsedSeconds)}` : '🎙️ Record'}
+          </button>
+        )}
       </div>
-      <textarea
-        value={content}
-        onChange={(e) => setContent(e.target.value)}
-        onFocus={handleFocus}
-        placeholder="Write your note here..."
-        disabled={isLoading}
-        rows={8}
-      />
+      {recordingError && <div className="error-message">{recordingError}</div>}
+      {restoredDraftAt && (
+        <div className="draft-notice">
+          <span>Restored your unsaved note from {new Date(restoredDraftAt).toLocaleString()}.</span>
+          <button type="button" className="draft-discard-btn" onClick={handleDiscardDraft} disabled={isLoading}>
+            Discard draft
+          </button>
+        </div>
+      )}
+      {isPreviewing ? (
+        <MarkdownContent content={content || '*Nothing to preview*'} className="note-form-preview" />
+      ) : (
+        <textarea
+          value={content}
+          onChange={(e) => setContent(e.target.value)}
+          onFocus={handleFocus}
+          placeholder="Write your note here... (Markdown supported)"
+          disabled={isLoading}
+          rows={8}
+        />
+      )}
+      {draftStatus === 'saved' && <span className="draft-status">Draft saved</span>}
+      {draftStatus === 'error' && <span className="draft-status error">Draft not saved</span>}
     </form>
   );
 }
@@ -0,0 +1,64 @@
+import { useState, useEffect } from 'react';
+
+interface SearchBarProps {
+  query: string;
+  includeHistory: boolean;
+  onSearch: (query: string, includeHistory: boolean) => void;
+}
+
+export function SearchBar({ query, includeHistory, onSearch }: SearchBarProps) {
+  const [input, setInput] = useState(query);
+
+  // Follow searches changed elsewhere (e.g. opening a saved view), keeping a trailing space being typed
+  useEffect(() => {
+    setInput((current) => (current.trim() === query ? current : query));
+  }, [query]);
+
+  // Debounce typing so every keystroke doesn't refetch notes
+  useEffect(() => {
+    if (input.trim() === query) return;
+
+    const timer = setTimeout(() => {
+      onSearch(input.trim(), includeHistory);
+    }, 300);
+
+    return () => clearTimeout(timer);
+  }, [input]);
+
+  const handleClear = () => {
+    setInput('');
+    onSearch('', includeHistory);
+  };
+
+  return (
+    <div className="search-bar">
+      <div className="search-input-row">
+        <svg className="search-icon" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2">
+          <circle cx="11" cy="11" r="8" />
+          <line x1="21" y1="21" x2="16.65" y2="16.65" />
+        </svg>
+        <input
+          type="search"
+          value={input}
+          onChange={(e) => setInput(e.target.value)}
+          onKeyDown={(e) => e.key === 'Escape' && handleClear()}
+          placeholder="Search notes..."
+          className="search-input"
+        />
+        {input && (
+          <button className="search-clear-btn" onClick={handleClear} aria-label="Clear search">
+            ×
+          </button>
+        )}
+      </div>
+      <label className="search-history-toggle">
+        <input
+          type="checkbox"
+          checked={includeHistory}
+          onChange={(e) => onSearch(input.trim(), e.target.checked)}
+        />
+        Include version history
+      </label>
+    </div>
+  );
+}
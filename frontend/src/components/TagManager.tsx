@@ -1,6 +1,7 @@
 import { useState } from 'react';
+import axios from 'axios';
 import { Tag } from '../types';
-import { createTag, updateTag, deleteTag } from '../api';
+import { createTag, updateTag, deleteTag, mergeTags } from '../api';
 
 interface TagManagerProps {
   tags: Tag[];
@@ -9,12 +10,49 @@ interface TagManagerProps {
 
 type SortMode = 'alpha-asc' | 'alpha-desc' | 'popularity-asc' | 'popularity-desc';
 
+interface TagNode {
+  tag: Tag;
+  label: string;
+  children: TagNode[];
+}
+
+const parentPath = (name: string) => name.split('/').slice(0, -1).join('/');
+const leafName = (name: string) => name.split('/').pop() || name;
+
+// Mirrors the backend so a rename can be matched against existing tags
+const normalizeTagName = (name: string) =>
+  name.toLowerCase().split('/').map(segment => segment.trim()).filter(Boolean).join('/');
+
+// Tag names are paths ("work/projectx"), so the tree is rebuilt from the names.
+// A tag whose parent doesn't exist is shown at the top level with its full path.
+const buildTagTree = (tags: Tag[]): TagNode[] => {
+  const nodes = new Map<string, TagNode>();
+  tags.forEach(tag => nodes.set(tag.name, { tag, label: tag.name, children: [] }));
+
+  const roots: TagNode[] = [];
+  nodes.forEach(node => {
+    const parent = nodes.get(parentPath(node.tag.name));
+    if (parent) {
+      node.label = leafName(node.tag.name);
+      parent.children.push(node);
+    } else {
+      roots.push(node);
+    }
+  });
+  return roots;
+};
+
 export function TagManager({ tags, onTagsChange }: TagManagerProps) {
   const [isOpen, setIsOpen] = useState(false);
   const [newTagName, setNewTagName] = useState('');
   const [editingTagId, setEditingTagId] = useState<number | null>(null);
   const [editingTagName, setEditingTagName] = useState('');
   const [sortMode, setSortMode] = useState<SortMode>('alpha-asc');
+  const [draggedTag, setDraggedTag] = useState<Tag | null>(null);
+  const [dropTargetId, setDropTargetId] = useState<number | 'root' | null>(null);
+  const [isSelecting, setIsSelecting] = useState(false);
+  const [selectedTagIds, setSelectedTagIds] = useState<number[]>([]);
+  const [mergeTargetId, setMergeTargetId] = useState<number | null>(null);
 
   const openFlyout = () => {
     setIsOpen(true);
@@ -25,6 +63,7 @@ export function TagManager({ tags, onTagsChange }: TagManagerProps) {
     setNewTagName('');
     setEditingTagId(null);
     setEditingTagName('');
+    exitSelection();
   };
 
   const handleCreateTag = async () => {
@@ -54,18 +93,86 @@ export function TagManager({ tags, onTagsChange }: TagManagerProps) {
       setEditingTagName('');
       onTagsChange();
     } catch (error) {
+      // Renaming onto an existing tag is a merge
+      const source = tags.find(tag => tag.id === tagId);
+      const target = tags.find(tag => tag.name === normalizeTagName(editingTagName));
+      if (axios.isAxiosError(error) && error.response?.status === 409 && source && target) {
+        if (confirm(`"${target.name}" already exists. Merge "${source.name}" into it?`)) {
+          await handleMerge([source], target);
+          setEditingTagId(null);
+          setEditingTagName('');
+        }
+        return;
+      }
       console.error('Error updating tag:', error);
       alert('Failed to update tag');
     }
   };
 
+  const exitSelection = () => {
+    setIsSelecting(false);
+    setSelectedTagIds([]);
+    setMergeTargetId(null);
+  };
+
+  const toggleSelected = (tagId: number) => {
+    const newSelection = selectedTagIds.includes(tagId)
+      ? selectedTagIds.filter(id => id !== tagId)
+      : [...selectedTagIds, tagId];
+
+    setSelectedTagIds(newSelection);
+    if (mergeTargetId === null || !newSelection.includes(mergeTargetId)) {
+      setMergeTargetId(newSelection[0] ?? null);
+    }
+  };
+
+  // Deepest tags first, so a nested source is merged before its parent moves it
+  const handleMerge = async (sources: Tag[], target: Tag) => {
+    const ordered = [...sources].sort((a, b) => b.name.split('/').length - a.name.split('/').length);
+
+    try {
+      for (const source of ordered) {
+        await mergeTags(source.id, target.id);
+      }
+      onTagsChange();
+    } catch (error) {
+      console.error('Error merging tags:', error);
+      alert('Failed to merge tags');
+      onTagsChange();
+    }
+  };
+
+  const handleMergeSelected = async () => {
+    const target = tags.find(tag => tag.id === mergeTargetId);
+    const sources = tags.filter(tag => selectedTagIds.includes(tag.id) && tag.id !== mergeTargetId);
+    if (!target || sources.length === 0) return;
+
+    if (sources.some(source => target.name.startsWith(`${source.name}/`))) {
+      alert(`Can't merge a tag into one nested under it. Pick a different target than "${target.name}".`);
+      return;
+    }
+
+    const names = sources.map(source => `"${source.name}"`).join(', ');
+    if (!confirm(`Merge ${names} into "${target.name}"? Their notes will be tagged "${target.name}" instead.`)) {
+      return;
+    }
+
+    await handleMerge(sources, target);
+    exitSelection();
+  };
+
   const handleCancelEdit = () => {
     setEditingTagId(null);
     setEditingTagName('');
   };
 
   const handleDeleteTag = async (tagId: number, tagName: string) => {
-    if (!confirm(`Delete tag "${tagName}"? This will remove it from all notes.`)) {
+    const hasChildren = tags.some(tag => tag.name.startsWith(`${tagName}/`));
+    const message = hasChildren
+      ? `Delete tag "${tagName}" and all tags nested under it? This will remove them from all notes.`
+      : `Delete tag "${tagName}"? This will remove it from all notes.`;
+
+    if (!confirm(message)) {
       return;
     }
 
@@ -84,24 +191,144 @@ export function TagManager({ tags, onTagsChange }: TagManagerProps) {
     onTagsChange();
   };
 
-  const getSortedTags = (): Tag[] => {
-    const tagsCopy = [...tags];
-
+  const compareTags = (a: Tag, b: Tag): number => {
     switch (sortMode) {
       case 'alpha-asc':
-        return tagsCopy.sort((a, b) => a.name.localeCompare(b.name));
+        return a.name.localeCompare(b.name);
       case 'alpha-desc':
-        return tagsCopy.sort((a, b) => b.name.localeCompare(a.name));
+        return b.name.localeCompare(a.name);
       case 'popularity-asc':
-        return tagsCopy.sort((a, b) => (a.note_count || 0) - (b.note_count || 0));
+        return (a.note_count || 0) - (b.note_count || 0);
       case 'popularity-desc':
-        return tagsCopy.sort((a, b) => (b.note_count || 0) - (a.note_count || 0));
+        return (b.note_count || 0) - (a.note_count || 0);
       default:
-        return tagsCopy;
+        return 0;
+    }
+  };
+
+  const sortTree = (nodes: TagNode[]): TagNode[] =>
+    nodes
+      .sort((a, b) => compareTags(a.tag, b.tag))
+      .map(node => ({ ...node, children: sortTree(node.children) }));
+
+  const tagTree = sortTree(buildTagTree(tags));
+
+  // A tag can't be dropped onto itself, its current parent, or anything nested under it
+  const canDropOn = (target: Tag | null): boolean => {
+    if (!draggedTag) return false;
+    if (!target) return parentPath(draggedTag.name) !== '';
+    return target.id !== draggedTag.id
+      && target.name !== parentPath(draggedTag.name)
+      && !target.name.startsWith(`${draggedTag.name}/`);
+  };
+
+  const handleDragEnd = () => {
+    setDraggedTag(null);
+    setDropTargetId(null);
+  };
+
+  // Reparenting is a rename of the path; the backend moves nested tags along with it
+  const handleDrop = async (target: Tag | null) => {
+    const tag = draggedTag;
+    handleDragEnd();
+    if (!tag) return;
+
+    const newName = target ? `${target.name}/${leafName(tag.name)}` : leafName(tag.name);
+
+    try {
+      await updateTag(tag.id, newName);
+      onTagsChange();
+    } catch (error) {
+      console.error('Error moving tag:', error);
+      alert('Failed to move tag');
     }
   };
 
-  const sortedTags = getSortedTags();
+  const renderTagNode = (node: TagNode, depth: number) => {
+    const { tag } = node;
+    const isEditing = editingTagId === tag.id;
+    const isSelected = selectedTagIds.includes(tag.id);
+
+    return (
+      <div key={tag.id} className="tag-tree-node">
+        <div
+          className={`tag-item ${isEditing ? 'editing' : ''} ${isSelected ? 'selected' : ''} ${dropTargetId === tag.id ? 'drop-target' : ''} ${draggedTag?.id === tag.id ? 'dragging' : ''}`}
+          style={{ marginLeft: `${depth * 1.25}rem` }}
+          draggable={!isEditing && !isSelecting}
+          onDragStart={(e) => {
+            e.dataTransfer.effectAllowed = 'move';
+            setDraggedTag(tag);
+          }}
+          onDragEnd={handleDragEnd}
+          onDragOver={(e) => {
+            if (!canDropOn(tag)) return;
+            e.preventDefault();
+            setDropTargetId(tag.id);
+          }}
+          onDragLeave={() => setDropTargetId(current => (current === tag.id ? null : current))}
+          onDrop={(e) => {
+            e.preventDefault();
+            handleDrop(tag);
+          }}
+        >
+          {isEditing ? (
+            <div className="tag-edit-row">
+              <input
+                type="text"
+                value={editingTagName}
+                onChange={(e) => setEditingTagName(e.target.value)}
+                onKeyDown={(e) => {
+                  if (e.key === 'Enter') handleSaveEdit(tag.id);
+                  if (e.key === 'Escape') handleCancelEdit();
+                }}
+                className="tag-edit-input"
+                autoFocus
+              />
+              <div className="tag-edit-actions">
+                <button onClick={() => handleSaveEdit(tag.id)} className="tag-save-btn">
+                  ✓
+                </button>
+                <button onClick={handleCancelEdit} className="tag-cancel-btn">
+                  ✕
+                </button>
+              </div>
+            </div>
+          ) : (
+            <>
+              <div className="tag-info">
+                {isSelecting && (
+                  <input
+                    type="checkbox"
+                    className="tag-select-checkbox"
+                    checked={isSelected}
+                    onChange={() => toggleSelected(tag.id)}
+                    aria-label={`Select ${tag.name}`}
+                  />
+                )}
+                <span className="tag-name" title={tag.name}>{node.label}</span>
+                <span className="tag-count">{tag.note_count || 0}</span>
+              </div>
+              {!isSelecting && <div className="tag-actions">
+                <button onClick={() => handleEditClick(tag)} className="tag-edit-btn" title="Edit tag">
+                  <svg width="16" height="16" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2">
+                    <path d="M11 4H4a2 2 0 0 0-2 2v14a2 2 0 0 0 2 2h14a2 2 0 0 0 2-2v-7" />
+                    <path d="M18.5 2.5a2.121 2.121 0 0 1 3 3L12 15l-4 1 1-4 9.5-9.5z" />
+                  </svg>
+                </button>
+                <button onClick={() => handleDeleteTag(tag.id, tag.name)} className="tag-delete-btn" title="Delete tag">
+                  <svg width="16" height="16" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2">
+                    <polyline points="3 6 5 6 21 6" />
+                    <path d="M19 6v14a2 2 0 0 1-2 2H7a2 2 0 0 1-2-2V6m3 0V4a2 2 0 0 1 2-2h4a2 2 0 0 1 2 2v2" />
+                  </svg>
+                </button>
+              </div>}
+            </>
+          )}
+        </div>
+        {node.children.map(child => renderTagNode(child, depth + 1))}
+      </div>
+    );
+  };
 
   return (
     <>
@@ -131,7 +358,7 @@ export function TagManager({ tags, onTagsChange }: TagManagerProps) {
                 value={newTagName}
                 onChange={(e) => setNewTagName(e.target.value)}
                 onKeyDown={(e) => e.key === 'Enter' && handleCreateTag()}
-                placeholder="Enter tag name..."
+                placeholder="Enter tag name (e.g. work/projectx)..."
                 className="tag-input"
               />
               <button onClick={handleCreateTag} className="tag-add-btn">
@@ -143,6 +370,14 @@ export function TagManager({ tags, onTagsChange }: TagManagerProps) {
           <div className="tag-manager-section">
             <div className="tag-list-header">
               <h3>All Tags ({tags.length})</h3>
+              {tags.length > 1 && (
+                <button
+                  className={`tag-select-toggle ${isSelecting ? 'active' : ''}`}
+                  onClick={() => (isSelecting ? exitSelection() : setIsSelecting(true))}
+                >
+                  {isSelecting ? 'Done' : 'Select'}
+                </button>
+              )}
               <select
                 value={sortMode}
                 onChange={(e) => handleSortChange(e.target.value as SortMode)}
@@ -155,60 +390,59 @@ export function TagManager({ tags, onTagsChange }: TagManagerProps) {
               </select>
             </div>
 
-            <div className="tag-list">
-              {sortedTags.length === 0 ? (
+            <div className="tag-list tag-tree">
+              {tags.length === 0 ? (
                 <span className="no-tags">No tags yet. Create one above!</span>
               ) : (
-                sortedTags.map((tag) => (
-                  <div key={tag.id} className={`tag-item ${editingTagId === tag.id ? 'editing' : ''}`}>
-                    {editingTagId === tag.id ? (
-                      <div className="tag-edit-row">
-                        <input
-                          type="text"
-                          value={editingTagName}
-                          onChange={(e) => setEditingTagName(e.target.value)}
-                          onKeyDown={(e) => {
-                            if (e.key === 'Enter') handleSaveEdit(tag.id);
-                            if (e.key === 'Escape') handleCancelEdit();
-                          }}
-                          className="tag-edit-input"
-                          autoFocus
-                        />
-                        <div className="tag-edit-actions">
-                          <button onClick={() => handleSaveEdit(tag.id)} className="tag-save-btn">
-                            ✓
-                          </button>
-                          <button onClick={handleCancelEdit} className="tag-cancel-btn">
-                            ✕
-                          </button>
-                        </div>
-                      </div>
-                    ) : (
-                      <>
-                        <div className="tag-info">
-                          <span className="tag-name">{tag.name}</span>
-                          <span className="tag-count">{tag.note_count || 0}</span>
-                        </div>
-                        <div className="tag-actions">
-                          <button onClick={() => handleEditClick(tag)} className="tag-edit-btn" title="Edit tag">
-                            <svg width="16" height="16" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2">
-                              <path d="M11 4H4a2 2 0 0 0-2 2v14a2 2 0 0 0 2 2h14a2 2 0 0 0 2-2v-7" />
-                              <path d="M18.5 2.5a2.121 2.121 0 0 1 3 3L12 15l-4 1 1-4 9.5-9.5z" />
-                            </svg>
-                          </button>
-                          <button onClick={() => handleDeleteTag(tag.id, tag.name)} className="tag-delete-btn" title="Delete tag">
-                            <svg width="16" height="16" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2">
-                              <polyline points="3 6 5 6 21 6" />
-                              <path d="M19 6v14a2 2 0 0 1-2 2H7a2 2 0 0 1-2-2V6m3 0V4a2 2 0 0 1 2-2h4a2 2 0 0 1 2 2v2" />
-                            </svg>
-                          </button>
-                        </div>
-                      </>
-                    )}
-                  </div>
-                ))
+                tagTree.map(node => renderTagNode(node, 0))
               )}
             </div>
+            {draggedTag && canDropOn(null) && (
+              <div
+                className={`tag-root-drop ${dropTargetId === 'root' ? 'drop-target' : ''}`}
+                onDragOver={(e) => {
+                  e.preventDefault();
+                  setDropTargetId('root');
+                }}
+                onDragLeave={() => setDropTargetId(null)}
+                onDrop={(e) => {
+                  e.preventDefault();
+                  handleDrop(null);
+                }}
+              >
+                Drop here to move to the top level
+              </div>
+            )}
+            {isSelecting && (
+              <div className="tag-merge-bar">
+                {selectedTagIds.length < 2 ? (
+                  <span className="tag-merge-hint">Select two or more tags to merge them.</span>
+                ) : (
+                  <>
+                    <span>Merge {selectedTagIds.length} tags into</span>
+                    <select
+                      value={mergeTargetId ?? ''}
+                      onChange={(e) => setMergeTargetId(parseInt(e.target.value))}
+                      className="tag-merge-select"
+                    >
+                      {tags
+                        .filter(tag => selectedTagIds.includes(tag.id))
+                        .map(tag => (
+                          <option key={tag.id} value={tag.id}>{tag.name}</option>
+                        ))}
+                    </select>
+                    <button onClick={handleMergeSelected} className="tag-merge-btn">
+                      Merge
+                    </button>
+                  </>
+                )}
+              </div>
+            )}
+            {tags.length > 0 && !isSelecting && (
+              <p className="tag-tree-hint">
+                Use "/" in a name to nest tags (e.g. work/projectx), or drag a tag onto another.
+              </p>
+            )}
           </div>
         </div>
       </div>
@@ -1,16 +1,31 @@
 import { useState } from 'react';
-import { Tag } from '../types';
+import { Tag, TagSuggestion } from '../types';
 
 interface TagSelectorProps {
   availableTags: Tag[];
   onClose: () => void;
-  onSave: (selectedTags: string[], newTags: string[]) => Promise<void>;
+  onSave: (selectedTags: string[], newTags: string[], acceptedSuggestions: string[]) => Promise<void>;
+  suggestions?: TagSuggestion[];
+  title?: string;
+  saveLabel?: string;
+  cancelLabel?: string;
+  allowNewTags?: boolean;
 }
 
-export function TagSelector({ availableTags, onClose, onSave }: TagSelectorProps) {
+export function TagSelector({
+  availableTags,
+  onClose,
+  onSave,
+  suggestions = [],
+  title = 'Select Tags',
+  saveLabel = 'Save Tags',
+  cancelLabel = 'Skip',
+  allowNewTags = true,
+}: TagSelectorProps) {
   const [selectedTags, setSelectedTags] = useState<Set<string>>(new Set());
   const [newTagInput, setNewTagInput] = useState('');
   const [newTags, setNewTags] = useState<string[]>([]);
+  const [acceptedSuggestions, setAcceptedSuggestions] = useState<Set<string>>(new Set());
   const [isSaving, setIsSaving] = useState(false);
 
   const toggleTag = (tagName: string) => {
@@ -23,6 +38,16 @@ export function TagSelector({ availableTags, onClose, onSave }: TagSelectorProps
     setSelectedTags(updated);
   };
 
+  const toggleSuggestion = (tagName: string) => {
+    const updated = new Set(acceptedSuggestions);
+    if (updated.has(tagName)) {
+      updated.delete(tagName);
+    } else {
+      updated.add(tagName);
+    }
+    setAcceptedSuggestions(updated);
+  };
+
   const addNewTag = () => {
     const trimmed = newTagInput.trim().toLowerCase();
     if (trimmed && !newTags.includes(trimmed) && !availableTags.some(t => t.name === trimmed)) {
@@ -45,7 +70,7 @@ export function TagSelector({ availableTags, onClose, onSave }: TagSelectorProps
   const handleSave = async () => {
     setIsSaving(true);
     try {
-      await onSave(Array.from(selectedTags), newTags);
+      await onSave(Array.from(selectedTags), newTags, Array.from(acceptedSuggestions));
       onClose();
     } catch (error) {
       console.error('Error saving tags:', error);
@@ -61,7 +86,7 @@ export function TagSelector({ availableTags, onClose, onSave }: TagSelectorProps
 
       <div className="tag-selector-modal">
         <div className="tag-selector-header">
-          <h2>Select Tags</h2>
+          <h2>{title}</h2>
           <button className="close-btn" onClick={onClose} aria-label="Close tag selector">
             <svg width="24" height="24" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2">
               <line x1="18" y1="6" x2="6" y2="18" />
@@ -71,7 +96,25 @@ export function TagSelector({ availableTags, onClose, onSave }: TagSelectorProps
         </div>
 
         <div className="tag-selector-content">
-          <div className="tag-selector-section">
+          {suggestions.length > 0 && (
+            <div className="tag-selector-section">
+              <h3>Suggested</h3>
+              <div className="tag-options">
+                {suggestions.map((suggestion) => (
+                  <button
+                    key={suggestion.name}
+                    className={`tag-option suggested ${acceptedSuggestions.has(suggestion.name) ? 'selected' : ''}`}
+                    onClick={() => toggleSuggestion(suggestion.name)}
+                    title={suggestion.existing ? 'Existing tag' : 'New tag'}
+                  >
+                    {suggestion.existing ? suggestion.name : `+ ${suggestion.name}`}
+                  </button>
+                ))}
+              </div>
+            </div>
+          )}
+
+          {allowNewTags && <div className="tag-selector-section">
             <h3>Add New Tag</h3>
             <div className="new-tag-input-group">
               <input
@@ -107,7 +150,7 @@ export function TagSelector({ availableTags, onClose, onSave }: TagSelectorProps
                 ))}
               </div>
             )}
-          </div>
+          </div>}
 
           {availableTags.length > 0 && (
             <div className="tag-selector-section">
@@ -129,14 +172,14 @@ export function TagSelector({ availableTags, onClose, onSave }: TagSelectorProps
 
         <div className="tag-selector-actions">
           <button className="cancel-btn" onClick={onClose} disabled={isSaving}>
-            Skip
+            {cancelLabel}
           </button>
           <button
             className="save-tags-btn"
             onClick={handleSave}
-            disabled={isSaving || (selectedTags.size === 0 && newTags.length === 0)}
+            disabled={isSaving || (selectedTags.size === 0 && newTags.length === 0 && acceptedSuggestions.size === 0)}
           >
-            {isSaving ? 'Saving...' : 'Save Tags'}
+            {isSaving ? 'Saving...' : saveLabel}
           </button>
         </div>
       </div>
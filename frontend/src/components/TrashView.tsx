@@ -0,0 +1,121 @@
+import { useState, useEffect } from 'react';
+import { Note } from '../types';
+import { getTrash, restoreNote, purgeNote, emptyTrash } from '../api';
+
+interface TrashViewProps {
+  onRestore: () => void;
+}
+
+export function TrashView({ onRestore }: TrashViewProps) {
+  const [notes, setNotes] = useState<Note[]>([]);
+  const [isLoading, setIsLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    loadTrash();
+  }, []);
+
+  const loadTrash = async () => {
+    setIsLoading(true);
+    try {
+      setError(null);
+      const fetchedNotes = await getTrash();
+      setNotes(fetchedNotes);
+    } catch (err) {
+      console.error('Error loading trash:', err);
+      setError('Failed to load trash.');
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  const handleRestore = async (id: number) => {
+    try {
+      await restoreNote(id);
+      await loadTrash();
+      onRestore();
+    } catch (err) {
+      console.error('Error restoring note:', err);
+      setError('Failed to restore note.');
+    }
+  };
+
+  const handlePurge = async (id: number) => {
+    if (!confirm('Permanently delete this note and its version history? This cannot be undone.')) {
+      return;
+    }
+
+    try {
+      await purgeNote(id);
+      await loadTrash();
+    } catch (err) {
+      console.error('Error deleting note:', err);
+      setError('Failed to delete note.');
+    }
+  };
+
+  const handleEmptyTrash = async () => {
+    if (!confirm(`Permanently delete all ${notes.length} notes in the trash? This cannot be undone.`)) {
+      return;
+    }
+
+    try {
+      await emptyTrash();
+      await loadTrash();
+    } catch (err) {
+      console.error('Error emptying trash:', err);
+      setError('Failed to empty trash.');
+    }
+  };
+
+  return (
+    <div className="trash-view">
+      <div className="trash-header">
+        <span className="note-count">
+          {notes.length} {notes.length === 1 ? 'note' : 'notes'} in trash
+        </span>
+        {notes.length > 0 && (
+          <button className="empty-trash-btn" onClick={handleEmptyTrash}>
+            Empty Trash
+          </button>
+        )}
+      </div>
+
+      {error && <div className="error-message">{error}</div>}
+
+      {isLoading && notes.length === 0 ? (
+        <div className="empty-state">
+          <p>Loading trash...</p>
+        </div>
+      ) : notes.length === 0 ? (
+        <div className="empty-state">
+          <p>Trash is empty.</p>
+        </div>
+      ) : (
+        <div className="notes-grid">
+          {notes.map((note) => (
+            <div key={note.id} className="note-card trashed">
+              <div className="note-header">
+                <span className="note-date">
+                  Deleted {note.deleted_at && new Date(note.deleted_at).toLocaleDateString()}
+                </span>
+                {note.current_version && note.current_version > 1 && (
+                  <span className="version-badge">v{note.current_version}</span>
+                )}
+              </div>
+              <div className="note-content">{note.content}</div>
+              <div className="trash-actions">
+                <button className="trash-restore-btn" onClick={() => handleRestore(note.id)}>
+                  Restore
+                </button>
+                <button className="trash-purge-btn" onClick={() => handlePurge(note.id)}>
+                  Delete Forever
+                </button>
+              </div>
+            </div>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+}
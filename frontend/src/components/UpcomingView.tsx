@@ -0,0 +1,93 @@
+import { useState, useEffect } from 'react';
+import { Note } from '../types';
+import { getReminders, setNoteReminder } from '../api';
+import { NoteCard } from './NoteCard';
+
+interface UpcomingViewProps {
+  // Bumped by the parent when notes change, so the list reloads
+  refreshKey: number;
+  onEdit: (note: Note) => void;
+  onDelete: (id: number) => void;
+}
+
+export function UpcomingView({ refreshKey, onEdit, onDelete }: UpcomingViewProps) {
+  const [notes, setNotes] = useState<Note[]>([]);
+  const [isLoading, setIsLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    loadReminders();
+  }, [refreshKey]);
+
+  const loadReminders = async () => {
+    setIsLoading(true);
+    try {
+      setError(null);
+      setNotes(await getReminders());
+    } catch (err) {
+      console.error('Error loading reminders:', err);
+      setError('Failed to load reminders.');
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  const handleClearReminded = async () => {
+    try {
+      await Promise.all(reminded.map((note) => setNoteReminder(note.id, null)));
+      await loadReminders();
+    } catch (err) {
+      console.error('Error clearing reminders:', err);
+      setError('Failed to clear reminders.');
+    }
+  };
+
+  const upcoming = notes.filter((note) => !note.reminded_at);
+  // Most recent first, unlike the upcoming ones
+  const reminded = notes.filter((note) => note.reminded_at).reverse();
+
+  const renderNotes = (section: Note[]) => (
+    <div className="notes-grid">
+      {section.map((note) => (
+        <NoteCard key={note.id} note={note} onEdit={onEdit} onDelete={onDelete} />
+      ))}
+    </div>
+  );
+
+  return (
+    <div className="upcoming-view">
+      {error && <div className="error-message">{error}</div>}
+
+      {isLoading && notes.length === 0 ? (
+        <div className="empty-state">
+          <p>Loading reminders...</p>
+        </div>
+      ) : notes.length === 0 ? (
+        <div className="empty-state">
+          <p>No reminders. Open a note and pick a time under Reminder to be reminded about it.</p>
+        </div>
+      ) : (
+        <>
+          <div className="upcoming-header">
+            <span className="note-count">
+              {upcoming.length} upcoming {upcoming.length === 1 ? 'reminder' : 'reminders'}
+            </span>
+          </div>
+          {upcoming.length > 0 && renderNotes(upcoming)}
+
+          {reminded.length > 0 && (
+            <>
+              <div className="upcoming-header">
+                <span className="note-count">Reminded</span>
+                <button className="upcoming-clear-btn" onClick={handleClearReminded}>
+                  Clear all
+                </button>
+              </div>
+              {renderNotes(reminded)}
+            </>
+          )}
+        </>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,173 @@
+import { useState, useEffect } from 'react';
+import { DiffHunk, NoteVersion, NoteVersionDiff } from '../types';
+import { getNoteVersionDiff } from '../api';
+
+interface VersionDiffProps {
+  noteId: number;
+  versions: NoteVersion[];
+  onClose: () => void;
+}
+
+type DiffMode = 'side-by-side' | 'inline';
+
+interface DiffRow {
+  left: string | null;
+  right: string | null;
+  type: DiffHunk['type'];
+}
+
+const splitLines = (value: string): string[] => {
+  const lines = value.split('\n');
+  // diffLines keeps the trailing newline on each hunk
+  if (lines[lines.length - 1] === '') lines.pop();
+  return lines;
+};
+
+// Pair removed/added line hunks into rows so both columns stay aligned
+const buildRows = (hunks: DiffHunk[]): DiffRow[] => {
+  const rows: DiffRow[] = [];
+
+  for (let i = 0; i < hunks.length; i++) {
+    const hunk = hunks[i];
+
+    if (hunk.type === 'equal') {
+      splitLines(hunk.value).forEach(line => rows.push({ left: line, right: line, type: 'equal' }));
+      continue;
+    }
+
+    const removed = hunk.type === 'removed' ? splitLines(hunk.value) : [];
+    let added = hunk.type === 'added' ? splitLines(hunk.value) : [];
+
+    if (hunk.type === 'removed' && hunks[i + 1]?.type === 'added') {
+      added = splitLines(hunks[i + 1].value);
+      i++;
+    }
+
+    for (let j = 0; j < Math.max(removed.length, added.length); j++) {
+      rows.push({
+        left: j < removed.length ? removed[j] : null,
+        right: j < added.length ? added[j] : null,
+        type: hunk.type,
+      });
+    }
+  }
+
+  return rows;
+};
+
+export function VersionDiff({ noteId, versions, onClose }: VersionDiffProps) {
+  // versions arrive sorted newest to oldest
+  const [fromVersion, setFromVersion] = useState<number>(versions[1]?.version ?? versions[0]?.version ?? 1);
+  const [toVersion, setToVersion] = useState<number>(versions[0]?.version ?? 1);
+  const [mode, setMode] = useState<DiffMode>('side-by-side');
+  const [diff, setDiff] = useState<NoteVersionDiff | null>(null);
+  const [isLoading, setIsLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    loadDiff();
+  }, [fromVersion, toVersion]);
+
+  const loadDiff = async () => {
+    setIsLoading(true);
+    setError(null);
+    try {
+      const fetchedDiff = await getNoteVersionDiff(noteId, fromVersion, toVersion);
+      setDiff(fetchedDiff);
+    } catch (err) {
+      console.error('Error loading diff:', err);
+      setError('Failed to load diff');
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  const renderSideBySide = (hunks: DiffHunk[]) => (
+    <div className="diff-side-by-side">
+      <div className="diff-row diff-row-header">
+        <div className="diff-cell">v{fromVersion}</div>
+        <div className="diff-cell">v{toVersion}</div>
+      </div>
+      {buildRows(hunks).map((row, i) => (
+        <div key={i} className="diff-row">
+          <div className={`diff-cell ${row.left === null ? 'empty' : row.type === 'equal' ? '' : 'removed'}`}>
+            {row.left}
+          </div>
+          <div className={`diff-cell ${row.right === null ? 'empty' : row.type === 'equal' ? '' : 'added'}`}>
+            {row.right}
+          </div>
+        </div>
+      ))}
+    </div>
+  );
+
+  const renderInline = (hunks: DiffHunk[]) => (
+    <div className="diff-inline">
+      {hunks.map((hunk, i) => {
+        if (hunk.type === 'added') return <ins key={i}>{hunk.value}</ins>;
+        if (hunk.type === 'removed') return <del key={i}>{hunk.value}</del>;
+        return <span key={i}>{hunk.value}</span>;
+      })}
+    </div>
+  );
+
+  const hasTagChanges = diff && (diff.tags.added.length > 0 || diff.tags.removed.length > 0);
+
+  return (
+    <div className="version-diff">
+      <div className="version-diff-header">
+        <h3>Compare Versions</h3>
+        <button className="close-btn" onClick={onClose} aria-label="Close comparison">×</button>
+      </div>
+
+      <div className="version-diff-controls">
+        <select value={fromVersion} onChange={(e) => setFromVersion(parseInt(e.target.value))}>
+          {versions.map((version) => (
+            <option key={version.id} value={version.version}>v{version.version}</option>
+          ))}
+        </select>
+        <span className="version-diff-arrow">→</span>
+        <select value={toVersion} onChange={(e) => setToVersion(parseInt(e.target.value))}>
+          {versions.map((version) => (
+            <option key={version.id} value={version.version}>v{version.version}</option>
+          ))}
+        </select>
+
+        <div className="diff-mode-toggle">
+          <button
+            className={mode === 'side-by-side' ? 'active' : ''}
+            onClick={() => setMode('side-by-side')}
+          >
+            Side by side
+          </button>
+          <button
+            className={mode === 'inline' ? 'active' : ''}
+            onClick={() => setMode('inline')}
+          >
+            Inline
+          </button>
+        </div>
+      </div>
+
+      {error && <div className="error-message">{error}</div>}
+
+      {isLoading && !diff ? (
+        <p>Loading diff...</p>
+      ) : diff && (
+        <>
+          {hasTagChanges && (
+            <div className="diff-tags">
+              {diff.tags.added.map((tag) => (
+                <span key={tag.id} className="tag diff-tag-added">+ {tag.name}</span>
+              ))}
+              {diff.tags.removed.map((tag) => (
+                <span key={tag.id} className="tag diff-tag-removed">− {tag.name}</span>
+              ))}
+            </div>
+          )}
+          {mode === 'side-by-side' ? renderSideBySide(diff.lines) : renderInline(diff.words)}
+        </>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,70 @@
+import { useEffect, useRef, useState } from 'react';
+import { saveDraft, deleteDraft } from './api';
+import { DraftKey } from './types';
+
+const DRAFT_SAVE_DELAY_MS = 1000;
+
+export type DraftStatus = 'idle' | 'saving' | 'saved' | 'error';
+
+/**
+ * Autosaves editor text to the server-side draft for `key` once typing pauses; a null key turns
+ * autosave off. Text matching `savedContent` (the note as saved, or '' for a new note) deletes
+ * the draft instead. Writes are sent one at a time so they reach the server in order.
+ * Call flushDraft when the editor closes and discardDraft once the note is saved.
+ */
+export function useDraftAutosave(key: DraftKey | null, content: string, savedContent: string, baseVersion?: number) {
+  const [status, setStatus] = useState<DraftStatus>('idle');
+  const lastWrittenRef = useRef(content);
+  const contentRef = useRef(content);
+  const timerRef = useRef<number | undefined>(undefined);
+  const writesRef = useRef<Promise<void>>(Promise.resolve());
+
+  contentRef.current = content;
+
+  const write = (text: string) => {
+    window.clearTimeout(timerRef.current);
+    if (key === null || text === lastWrittenRef.current) return writesRef.current;
+
+    lastWrittenRef.current = text;
+    setStatus('saving');
+    writesRef.current = writesRef.current.then(async () => {
+      try {
+        if (text.trim() === savedContent.trim()) {
+          await deleteDraft(key);
+          setStatus('idle');
+        } else {
+          await saveDraft(key, text, baseVersion);
+          setStatus('saved');
+        }
+      } catch (err) {
+        console.error('Error saving draft:', err);
+        setStatus('error');
+      }
+    });
+    return writesRef.current;
+  };
+
+  useEffect(() => {
+    if (key === null || content === lastWrittenRef.current) return;
+
+    timerRef.current = window.setTimeout(() => write(content), DRAFT_SAVE_DELAY_MS);
+    return () => window.clearTimeout(timerRef.current);
+  }, [key, content, savedContent, baseVersion]);
+
+  // Saves whatever is still waiting on the debounce
+  const flushDraft = () => write(contentRef.current);
+
+  const discardDraft = () => {
+    window.clearTimeout(timerRef.current);
+    if (key === null) return writesRef.current;
+
+    lastWrittenRef.current = contentRef.current;
+    setStatus('idle');
+    writesRef.current = writesRef.current
+      .then(() => deleteDraft(key))
+      .catch((err) => console.error('Error discarding draft:', err));
+    return writesRef.current;
+  };
+
+  return { draftStatus: status, flushDraft, discardDraft };
+}
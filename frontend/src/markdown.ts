@@ -0,0 +1,32 @@
+import { marked, Marked } from 'marked';
+import DOMPurify from 'dompurify';
+
+marked.setOptions({
+  gfm: true,
+  breaks: true,
+});
+
+// Same rendering, but task list checkboxes stay enabled so MarkdownContent can make them toggle items
+const interactiveMarked = new Marked({
+  gfm: true,
+  breaks: true,
+  renderer: {
+    checkbox({ checked }) {
+      return `<input ${checked ? 'checked="" ' : ''}type="checkbox" class="task-checkbox">`;
+    },
+  },
+});
+
+// Open links in a new tab without giving the target page access to this one
+DOMPurify.addHook('afterSanitizeAttributes', (node) => {
+  if (node.tagName === 'A') {
+    node.setAttribute('target', '_blank');
+    node.setAttribute('rel', 'noopener noreferrer');
+  }
+});
+
+// Renders note content as Markdown and strips anything unsafe (scripts, event handlers, etc.)
+export function renderMarkdown(content: string, interactiveTasks = false): string {
+  const html = (interactiveTasks ? interactiveMarked : marked).parse(content, { async: false });
+  return DOMPurify.sanitize(html, { ADD_ATTR: ['target'] });
+}
@@ -0,0 +1,80 @@
+import { getPushPublicKey, savePushSubscription, deletePushSubscription } from './api';
+import { Note } from './types';
+
+// Reminders reach the browser two ways: over the live event stream while the app is open, and through
+// Web Push (see public/sw.js) when the server has a VAPID key. Both use the same notification tag,
+// so a reminder that arrives both ways is only shown once.
+
+function reminderTag(noteId: number): string {
+  return `reminder-${noteId}`;
+}
+
+function reminderTitle(note: Note): string {
+  const firstLine = note.content.split('\n').find((line) => line.trim()) || 'Reminder';
+  return firstLine.replace(/^#+\s*/, '').trim();
+}
+
+/**
+ * Asks for notification permission and, when the server supports Web Push, subscribes this browser
+ * so reminders arrive with the app closed. Returns false if the user declined notifications.
+ */
+export async function enableReminderNotifications(): Promise<boolean> {
+  if (!('Notification' in window)) return false;
+
+  const permission = Notification.permission === 'default'
+    ? await Notification.requestPermission()
+    : Notification.permission;
+  if (permission !== 'granted') return false;
+
+  if (!('serviceWorker' in navigator) || !('PushManager' in window)) return true;
+
+  try {
+    const publicKey = await getPushPublicKey();
+    if (!publicKey) return true;
+
+    const registration = await navigator.serviceWorker.ready;
+    const subscription = await registration.pushManager.getSubscription()
+      || await registration.pushManager.subscribe({
+        userVisibleOnly: true,
+        // PushManager accepts the key in the same base64url form the server sends
+        applicationServerKey: publicKey,
+      });
+
+    const { endpoint, keys } = subscription.toJSON();
+    if (endpoint && keys?.p256dh && keys.auth) {
+      await savePushSubscription({ endpoint, keys: { p256dh: keys.p256dh, auth: keys.auth } });
+    }
+  } catch (err) {
+    // Reminders still show while the app is open
+    console.error('Error subscribing to push notifications:', err);
+  }
+  return true;
+}
+
+// Stops reminders for the signed-out user from reaching this browser
+export async function disableReminderNotifications(): Promise<void> {
+  if (!('serviceWorker' in navigator) || !('PushManager' in window)) return;
+
+  const registration = await navigator.serviceWorker.getRegistration();
+  const subscription = await registration?.pushManager.getSubscription();
+  if (!subscription) return;
+
+  await deletePushSubscription(subscription.endpoint).catch((err) => {
+    console.error('Error removing push subscription:', err);
+  });
+  await subscription.unsubscribe();
+}
+
+export async function showReminderNotification(note: Note): Promise<void> {
+  if (!('Notification' in window) || Notification.permission !== 'granted') return;
+
+  const title = reminderTitle(note);
+  const options = { body: note.content.slice(0, 200), tag: reminderTag(note.id), data: { noteId: note.id } };
+
+  const registration = 'serviceWorker' in navigator ? await navigator.serviceWorker.getRegistration() : undefined;
+  if (registration) {
+    await registration.showNotification(title, options);
+  } else {
+    new Notification(title, options);
+  }
+}
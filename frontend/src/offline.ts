@@ -0,0 +1,323 @@
+import axios from 'axios';
+import { Note, NoteFilters, NotePage, Tag, OfflineMutation, QueuedMutation } from './types';
+
+// Notes and tags are mirrored into IndexedDB so the app still opens without a connection,
+// and changes made offline wait in the queue store until they can be replayed.
+const DB_NAME = 'omnirambles';
+const DB_VERSION = 1;
+const NOTES_STORE = 'notes';
+const TAGS_STORE = 'tags';
+const QUEUE_STORE = 'queue';
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+let lastTempId = 0;
+
+function openDatabase(): Promise<IDBDatabase> {
+  if (!dbPromise) {
+    dbPromise = new Promise((resolve, reject) => {
+      const request = indexedDB.open(DB_NAME, DB_VERSION);
+      request.onupgradeneeded = () => {
+        const db = request.result;
+        db.createObjectStore(NOTES_STORE, { keyPath: 'id' });
+        db.createObjectStore(TAGS_STORE, { keyPath: 'id' });
+        db.createObjectStore(QUEUE_STORE, { keyPath: 'id', autoIncrement: true });
+      };
+      request.onsuccess = () => resolve(request.result);
+      request.onerror = () => reject(request.error);
+    });
+    dbPromise.catch(() => {
+      dbPromise = null;
+    });
+  }
+  return dbPromise;
+}
+
+// Runs fn inside a transaction and resolves with its request's result once the transaction commits
+async function withStore<T>(
+  storeName: string,
+  mode: IDBTransactionMode,
+  fn: (store: IDBObjectStore) => IDBRequest<T> | void
+): Promise<T> {
+  const db = await openDatabase();
+  return new Promise((resolve, reject) => {
+    const transaction = db.transaction(storeName, mode);
+    const request = fn(transaction.objectStore(storeName));
+    transaction.oncomplete = () => resolve(request ? request.result : (undefined as T));
+    transaction.onerror = () => reject(transaction.error);
+    transaction.onabort = () => reject(transaction.error);
+  });
+}
+
+// True when the request never got a response: offline, or the server is unreachable
+export function isNetworkError(err: unknown): boolean {
+  return axios.isAxiosError(err) && !err.response;
+}
+
+// Negative so they can never collide with ids assigned by the server
+export function createTempId(): number {
+  lastTempId = Math.min(lastTempId - 1, -Date.now());
+  return lastTempId;
+}
+
+// Search-only fields are dropped so they don't linger on notes browsed offline later
+export async function cacheNotes(notes: Note[]): Promise<void> {
+  await withStore(NOTES_STORE, 'readwrite', store => {
+    notes.forEach(({ rank, snippet, matched_history, ...note }) => store.put(note));
+  });
+}
+
+/**
+ * Caches a page of the unfiltered note list and forgets cached notes that should have appeared
+ * in it but didn't, i.e. notes deleted from another client. Filtered pages are only cached,
+ * since a missing note there may simply not match. Notes still waiting to sync are kept.
+ */
+export async function cacheNotePage(page: NotePage, filters: NoteFilters = {}, isFirstPage = true): Promise<void> {
+  await cacheNotes(page.notes);
+
+  const { sortBy = 'created_at', sortOrder, ...rest } = filters;
+  const isFiltered = Object.values(rest).some(value => Array.isArray(value) ? value.length > 0 : Boolean(value));
+  if (isFiltered || page.notes.length === 0) return;
+
+  const keys = page.notes.map(note => Date.parse(note[sortBy]));
+  const newest = isFirstPage ? Infinity : Math.max(...keys);
+  const oldest = page.next_cursor ? Math.min(...keys) : -Infinity;
+  const onPage = new Set(page.notes.map(note => note.id));
+
+  const cached = await withStore<Note[]>(NOTES_STORE, 'readonly', store => store.getAll());
+  const stale = cached.filter(note => {
+    const key = Date.parse(note[sortBy]);
+    return !note.pending && !onPage.has(note.id) && key <= newest && key >= oldest;
+  });
+  if (stale.length > 0) {
+    await withStore(NOTES_STORE, 'readwrite', store => {
+      stale.forEach(note => store.delete(note.id));
+    });
+  }
+}
+
+export async function getCachedNote(id: number): Promise<Note | undefined> {
+  return withStore<Note | undefined>(NOTES_STORE, 'readonly', store => store.get(id));
+}
+
+export async function removeCachedNote(id: number): Promise<void> {
+  await withStore(NOTES_STORE, 'readwrite', store => store.delete(id));
+}
+
+// The tag list is always fetched whole, so the cache is replaced rather than merged
+export async function cacheTags(tags: Tag[]): Promise<void> {
+  await withStore(TAGS_STORE, 'readwrite', store => {
+    store.clear();
+    tags.forEach(tag => store.put(tag));
+  });
+}
+
+export async function getCachedTags(): Promise<Tag[]> {
+  const tags = await withStore<Tag[]>(TAGS_STORE, 'readonly', store => store.getAll());
+  return tags.sort((a, b) => a.name.localeCompare(b.name));
+}
+
+function tagMatches(tagName: string, filterName: string): boolean {
+  return tagName === filterName || tagName.startsWith(`${filterName}/`);
+}
+
+// Mirrors the server's filters closely enough for browsing offline; search is a plain substring match
+function matchesFilters(note: Note, filters: NoteFilters): boolean {
+  const tagNames = (note.tags || []).map(tag => tag.name);
+  const hasTag = (filterName: string) => tagNames.some(name => tagMatches(name, filterName.toLowerCase()));
+
+  const archived = filters.archived || 'exclude';
+  if (archived !== 'include' && Boolean(note.archived) !== (archived === 'only')) {
+    return false;
+  }
+
+  if (filters.q && !note.content.toLowerCase().includes(filters.q.trim().toLowerCase())) {
+    return false;
+  }
+  if (filters.tags && filters.tags.length > 0) {
+    const matched = filters.tagMode === 'and' ? filters.tags.every(hasTag) : filters.tags.some(hasTag);
+    if (!matched) return false;
+  }
+  if (filters.excludeTags?.some(hasTag)) {
+    return false;
+  }
+  if (filters.untagged && tagNames.length > 0) {
+    return false;
+  }
+
+  const dateRanges: Array<[string | undefined, string, 1 | -1]> = [
+    [filters.createdFrom, note.created_at, 1],
+    [filters.createdTo, note.created_at, -1],
+    [filters.updatedFrom, note.updated_at, 1],
+    [filters.updatedTo, note.updated_at, -1],
+  ];
+  for (const [bound, value, direction] of dateRanges) {
+    if (bound && (Date.parse(value) - Date.parse(bound)) * direction < 0) {
+      return false;
+    }
+  }
+
+  if (filters.moreThanVersions !== undefined && (note.current_version || 1) <= filters.moreThanVersions) {
+    return false;
+  }
+  return true;
+}
+
+export async function getCachedNotePage(filters: NoteFilters = {}): Promise<NotePage> {
+  const notes = await withStore<Note[]>(NOTES_STORE, 'readonly', store => store.getAll());
+  const sortBy = filters.sortBy || 'created_at';
+  const direction = filters.sortOrder === 'asc' ? 1 : -1;
+
+  const matching = notes
+    .filter(note => matchesFilters(note, filters))
+    .sort((a, b) =>
+      Number(Boolean(b.pinned)) - Number(Boolean(a.pinned)) ||
+      (Date.parse(a[sortBy]) - Date.parse(b[sortBy]) || a.id - b.id) * direction
+    );
+
+  return { notes: matching, total: matching.length, next_cursor: null, offline: true };
+}
+
+// Offline queue
+export async function getQueuedMutations(): Promise<QueuedMutation[]> {
+  return withStore<QueuedMutation[]>(QUEUE_STORE, 'readonly', store => store.getAll());
+}
+
+export async function countQueuedMutations(): Promise<number> {
+  return withStore<number>(QUEUE_STORE, 'readonly', store => store.count());
+}
+
+export async function removeQueuedMutation(id: number): Promise<void> {
+  await withStore(QUEUE_STORE, 'readwrite', store => store.delete(id));
+}
+
+async function queueMutation(mutation: OfflineMutation): Promise<void> {
+  await withStore(QUEUE_STORE, 'readwrite', store => store.add(mutation));
+}
+
+async function putQueuedMutation(mutation: QueuedMutation): Promise<void> {
+  await withStore(QUEUE_STORE, 'readwrite', store => store.put(mutation));
+}
+
+// Returns how many times replaying this change has now failed with a server error
+export async function recordReplayFailure(mutation: QueuedMutation): Promise<number> {
+  const attempts = (mutation.attempts ?? 0) + 1;
+  await putQueuedMutation({ ...mutation, attempts });
+  return attempts;
+}
+
+// Once a note created offline reaches the server, later queued changes must target its real id
+export async function replaceTempNoteId(tempId: number, note: Note): Promise<void> {
+  const queued = await getQueuedMutations();
+  for (const mutation of queued) {
+    if (mutation.noteId === tempId) {
+      await putQueuedMutation({ ...mutation, noteId: note.id });
+    }
+  }
+  await removeCachedNote(tempId);
+  await cacheNotes([note]);
+}
+
+export async function createNoteOffline(content: string): Promise<Note> {
+  const now = new Date().toISOString();
+  const note: Note = {
+    id: createTempId(),
+    content,
+    created_at: now,
+    updated_at: now,
+    current_version: 1,
+    tags: [],
+    pending: true,
+  };
+
+  await queueMutation({ type: 'create', noteId: note.id, content });
+  await cacheNotes([note]);
+  return note;
+}
+
+// Repeated offline edits collapse into one queued change that keeps the first base version and
+// revision, so replaying it still detects edits made elsewhere in the meantime
+export async function updateNoteOffline(id: number, content: string, baseVersion?: number, baseRevision?: number): Promise<Note> {
+  const cached = await getCachedNote(id);
+  if (!cached) {
+    throw new Error(`Note ${id} is not available offline`);
+  }
+
+  const queued = await getQueuedMutations();
+  const existing = queued.find(
+    (mutation): mutation is Extract<QueuedMutation, { content: string }> =>
+      mutation.noteId === id && (mutation.type === 'create' || mutation.type === 'update')
+  );
+
+  if (existing) {
+    await putQueuedMutation({ ...existing, content });
+  } else {
+    await queueMutation({ type: 'update', noteId: id, content, baseVersion, baseRevision });
+  }
+
+  const note: Note = { ...cached, content, updated_at: new Date().toISOString(), pending: true };
+  await cacheNotes([note]);
+  return note;
+}
+
+export async function addTagOffline(noteId: number, tagName: string, source: 'AI' | 'Self'): Promise<Note> {
+  const cached = await getCachedNote(noteId);
+  if (!cached) {
+    throw new Error(`Note ${noteId} is not available offline`);
+  }
+
+  const name = tagName.trim().toLowerCase();
+  const tags = cached.tags || [];
+  if (tags.some(tag => tag.name === name)) {
+    return cached;
+  }
+
+  const knownTag = (await getCachedTags()).find(tag => tag.name === name);
+  const tag: Tag = knownTag || { id: createTempId(), name, source };
+
+  await queueMutation({ type: 'add-tag', noteId, tagName: name, source });
+  const note: Note = { ...cached, tags: [...tags, tag], pending: true };
+  await cacheNotes([note]);
+  return note;
+}
+
+export async function removeTagOffline(noteId: number, tagId: number): Promise<Note> {
+  const cached = await getCachedNote(noteId);
+  if (!cached) {
+    throw new Error(`Note ${noteId} is not available offline`);
+  }
+
+  const tags = cached.tags || [];
+  const removed = tags.find(tag => tag.id === tagId);
+
+  // Removing a tag that was only added offline just cancels the queued add
+  const queuedAdd = removed && (await getQueuedMutations()).find(
+    mutation => mutation.type === 'add-tag' && mutation.noteId === noteId && mutation.tagName === removed.name
+  );
+  if (queuedAdd) {
+    await removeQueuedMutation(queuedAdd.id);
+  } else if (tagId > 0) {
+    await queueMutation({ type: 'remove-tag', noteId, tagId });
+  }
+
+  const note: Note = { ...cached, tags: tags.filter(tag => tag.id !== tagId), pending: true };
+  await cacheNotes([note]);
+  return note;
+}
+
+// Deleting a note that never reached the server just forgets it and its queued changes
+export async function discardOfflineNote(id: number): Promise<void> {
+  const queued = await getQueuedMutations();
+  for (const mutation of queued) {
+    if (mutation.noteId === id) {
+      await removeQueuedMutation(mutation.id);
+    }
+  }
+  await removeCachedNote(id);
+}
+
+// Cached notes belong to whoever was signed in, so they are dropped on logout
+export async function clearOfflineData(): Promise<void> {
+  for (const storeName of [NOTES_STORE, TAGS_STORE, QUEUE_STORE]) {
+    await withStore(storeName, 'readwrite', store => store.clear());
+  }
+}
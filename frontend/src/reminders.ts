@@ -0,0 +1,48 @@
+import { Note } from './types';
+
+export function isReminderOverdue(note: Note): boolean {
+  return Boolean(note.remind_at && !note.reminded_at && Date.parse(note.remind_at) < Date.now());
+}
+
+// "Today 14:30", "Tomorrow 09:00", "Fri 09:00", or a full date further out
+export function formatReminder(remindAt: string): string {
+  const date = new Date(remindAt);
+  const time = date.toLocaleTimeString([], { hour: '2-digit', minute: '2-digit' });
+
+  const startOfToday = new Date();
+  startOfToday.setHours(0, 0, 0, 0);
+  const startOfDay = new Date(date);
+  startOfDay.setHours(0, 0, 0, 0);
+  const dayOffset = Math.round((startOfDay.getTime() - startOfToday.getTime()) / 86400000);
+
+  if (dayOffset === 0) return `Today ${time}`;
+  if (dayOffset === 1) return `Tomorrow ${time}`;
+  if (dayOffset === -1) return `Yesterday ${time}`;
+  if (dayOffset > 1 && dayOffset < 7) return `${date.toLocaleDateString([], { weekday: 'short' })} ${time}`;
+  return `${date.toLocaleDateString()} ${time}`;
+}
+
+// <input type="datetime-local"> works in local time without a zone: "2024-05-01T09:00"
+export function toDateTimeLocal(date: Date): string {
+  const pad = (value: number) => String(value).padStart(2, '0');
+  return `${date.getFullYear()}-${pad(date.getMonth() + 1)}-${pad(date.getDate())}T${pad(date.getHours())}:${pad(date.getMinutes())}`;
+}
+
+// Quick picks offered next to the date input
+export function reminderPresets(now = new Date()): Array<{ label: string; date: Date }> {
+  const inOneHour = new Date(now.getTime() + 3600000);
+  inOneHour.setSeconds(0, 0);
+
+  const tomorrowMorning = new Date(now);
+  tomorrowMorning.setDate(now.getDate() + 1);
+  tomorrowMorning.setHours(9, 0, 0, 0);
+
+  const nextWeek = new Date(tomorrowMorning);
+  nextWeek.setDate(now.getDate() + ((8 - now.getDay()) % 7 || 7));
+
+  return [
+    { label: 'In 1 hour', date: inOneHour },
+    { label: 'Tomorrow 9:00', date: tomorrowMorning },
+    { label: 'Next Monday 9:00', date: nextWeek },
+  ];
+}
@@ -1,19 +1,117 @@
+export interface User {
+  id: number;
+  username: string;
+  created_at: string;
+}
+
+export interface AuthResponse {
+  token: string;
+  user: User;
+}
+
+export type TranscriptStatus = 'pending' | 'processing' | 'done' | 'failed';
+
 export interface Note {
   id: number;
   content: string;
   created_at: string;
   updated_at: string;
+  deleted_at?: string | null;
+  // Pinned notes are listed first; archived notes only appear in the Archived view
+  pinned?: boolean;
+  archived?: boolean;
+  // When to remind the user; reminded_at is set once the reminder has fired
+  remind_at?: string | null;
+  reminded_at?: string | null;
+  // Voice notes: how far transcribing the recording (an audio attachment) into the content has got
+  transcript_status?: TranscriptStatus | null;
+  transcript_error?: string | null;
+  transcript_attachment_id?: number | null;
+  // Changes with every edit and every checklist tick; current_version only changes with edits
+  revision?: number;
   current_version?: number;
   tags?: Tag[];
+  attachments?: Attachment[];
+  // Only present on search results
+  rank?: number;
+  snippet?: string;
+  matched_history?: boolean;
+  // Set on notes changed while offline that have not reached the server yet
+  pending?: boolean;
 }
 
+// A file attached to a note; `version` is the note version that was current when it was attached
+export interface Attachment {
+  id: number;
+  note_id: number;
+  version: number;
+  filename: string;
+  content_type: string;
+  size_bytes: number;
+  has_thumbnail: boolean;
+  created_at: string;
+}
+
+// Pushed by the server when notes or tags change on any of the user's clients.
+// The "changed" events mean several notes or tags changed and should be reloaded.
+export type SyncEvent =
+  | { type: 'note.created'; note: Note }
+  | { type: 'note.updated'; note: Note }
+  | { type: 'note.deleted'; noteId: number }
+  | { type: 'notes.changed' }
+  | { type: 'tags.changed' }
+  | { type: 'reminder.due'; note: Note };
+
 export interface Tag {
   id: number;
   name: string;
-  source: 'Self';
+  source: 'AI' | 'Self';
   note_count?: number;
 }
 
+// A task list item ("- [ ] text" / "- [x] text") in a note; line is the source line, numbered from 0
+export interface ChecklistItem {
+  line: number;
+  checked: boolean;
+}
+
+// Body of a 409 from PUT /api/notes/:id when the note changed since baseVersion or baseRevision
+export interface NoteConflict {
+  error: string;
+  base_version?: number;
+  current_version: number;
+  base_revision?: number;
+  current_revision?: number;
+  note: Note;
+}
+
+// A proposed tag; `existing` is true when the user already has a tag with this name
+export interface TagSuggestion {
+  name: string;
+  score: number;
+  existing: boolean;
+}
+
+// A browser's Web Push subscription, as produced by PushSubscription.toJSON()
+export interface PushSubscriptionRequest {
+  endpoint: string;
+  keys: {
+    p256dh: string;
+    auth: string;
+  };
+}
+
+// Drafts belong to a note, or to the new-note form ('new')
+export type DraftKey = number | 'new';
+
+// Unsaved editor text kept on the server; base_version is the note version the edit started from
+export interface NoteDraft {
+  note_id: number | null;
+  content: string;
+  base_version: number | null;
+  updated_at: string;
+}
+
 export interface NoteVersion {
   id: number;
   note_id: number;
@@ -23,8 +121,114 @@ export interface NoteVersion {
   tags?: Tag[];
 }
 
+export interface DiffHunk {
+  type: 'equal' | 'added' | 'removed';
+  value: string;
+}
+
+export interface NoteVersionDiff {
+  from: number;
+  to: number;
+  lines: DiffHunk[];
+  words: DiffHunk[];
+  tags: {
+    added: Tag[];
+    removed: Tag[];
+  };
+}
+
+// A change made while offline, replayed in order once the server is reachable again.
+// Notes created offline have negative temporary ids until the server assigns real ones.
+export type OfflineMutation =
+  | { type: 'create'; noteId: number; content: string }
+  | { type: 'update'; noteId: number; content: string; baseVersion?: number; baseRevision?: number }
+  | { type: 'add-tag'; noteId: number; tagName: string; source: 'AI' | 'Self' }
+  | { type: 'remove-tag'; noteId: number; tagId: number };
+
+// attempts counts replays that failed with a server error
+export type QueuedMutation = OfflineMutation & { id: number; attempts?: number };
+
+// An offline edit the server rejected because the note changed in the meantime
+export interface OfflineConflict {
+  conflict: NoteConflict;
+  content: string;
+}
+
+// An offline change the server refused outright, e.g. because its note was deleted in the meantime
+export interface DroppedOfflineChange {
+  mutation: OfflineMutation;
+  reason: string;
+}
+
+export interface OfflineSyncResult {
+  conflicts: OfflineConflict[];
+  dropped: DroppedOfflineChange[];
+}
+
+export type TagMatchMode = 'and' | 'or';
+
+// Archived notes are excluded unless asked for: 'only' lists just them, 'include' lists everything
+export type ArchivedFilter = 'exclude' | 'only' | 'include';
+
 export interface NoteFilters {
+  archived?: ArchivedFilter;
+  q?: string;
+  includeHistory?: boolean;
   tags?: string[];
+  tagMode?: TagMatchMode;
+  excludeTags?: string[];
+  untagged?: boolean;
+  // ISO timestamps, inclusive
+  createdFrom?: string;
+  createdTo?: string;
+  updatedFrom?: string;
+  updatedTo?: string;
+  moreThanVersions?: number;
   sortBy?: 'created_at' | 'updated_at';
   sortOrder?: 'asc' | 'desc';
 }
+
+export interface NotePage {
+  notes: Note[];
+  total: number;
+  next_cursor: string | null;
+  // True when the server was unreachable and the page was read from the offline cache
+  offline?: boolean;
+}
+
+export interface SavedView {
+  id: number;
+  name: string;
+  filters: NoteFilters;
+  created_at: string;
+}
+
+export type BulkNoteAction = 'add-tags' | 'remove-tags' | 'delete';
+
+export interface BulkNoteResult {
+  action: BulkNoteAction;
+  updated: number;
+}
+
+export type ExportFormat = 'json' | 'markdown';
+
+export interface ImportSkippedFile {
+  source: string;
+  reason: string;
+}
+
+export interface ImportReport {
+  dry_run: boolean;
+  notes_created: number;
+  versions_created: number;
+  tags_created: string[];
+  notes: Array<{
+    id?: number;
+    source: string;
+    title: string;
+    created_at: string;
+    tags: string[];
+    versions: number;
+  }>;
+  skipped: ImportSkippedFile[];
+}
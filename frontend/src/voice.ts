@@ -0,0 +1,109 @@
+import { useEffect, useRef, useState } from 'react';
+import { TranscriptStatus } from './types';
+
+// Browsers differ in what MediaRecorder can produce; the server converts whichever one is used
+const RECORDING_TYPES = ['audio/webm;codecs=opus', 'audio/ogg;codecs=opus', 'audio/mp4', 'audio/webm'];
+
+export const isRecordingSupported = typeof window !== 'undefined'
+  && 'MediaRecorder' in window
+  && !!navigator.mediaDevices?.getUserMedia;
+
+export interface Recording {
+  audio: Blob;
+  filename: string;
+}
+
+function recordingFilename(type: string): string {
+  const extension = type.includes('ogg') ? 'ogg' : type.includes('mp4') ? 'm4a' : 'webm';
+  // Local time, e.g. "2024-05-01 09.30"
+  const now = new Date();
+  const stamp = new Date(now.getTime() - now.getTimezoneOffset() * 60000)
+    .toISOString().slice(0, 16).replace('T', ' ').replace(':', '.');
+  return `Voice note ${stamp}.${extension}`;
+}
+
+export function formatDuration(seconds: number): string {
+  return `${Math.floor(seconds / 60)}:${String(seconds % 60).padStart(2, '0')}`;
+}
+
+/**
+ * Records from the microphone. startRecording rejects if the user denies access; stopRecording
+ * resolves with the audio, and cancelRecording throws it away. The microphone is released as soon as
+ * recording ends, including when the component unmounts mid-recording.
+ */
+export function useVoiceRecorder() {
+  const [isRecording, setIsRecording] = useState(false);
+  const [elapsedSeconds, setElapsedSeconds] = useState(0);
+  const recorderRef = useRef<MediaRecorder | null>(null);
+  const timerRef = useRef<number | undefined>(undefined);
+
+  const release = () => {
+    window.clearInterval(timerRef.current);
+    recorderRef.current?.stream.getTracks().forEach((track) => track.stop());
+    recorderRef.current = null;
+    setIsRecording(false);
+  };
+
+  useEffect(() => release, []);
+
+  const startRecording = async () => {
+    if (recorderRef.current) return;
+
+    const stream = await navigator.mediaDevices.getUserMedia({ audio: true });
+    const mimeType = RECORDING_TYPES.find((type) => MediaRecorder.isTypeSupported(type));
+    const recorder = new MediaRecorder(stream, mimeType ? { mimeType } : undefined);
+    recorder.start();
+    recorderRef.current = recorder;
+
+    const startedAt = Date.now();
+    setElapsedSeconds(0);
+    setIsRecording(true);
+    timerRef.current = window.setInterval(() => {
+      setElapsedSeconds(Math.floor((Date.now() - startedAt) / 1000));
+    }, 1000);
+  };
+
+  const stopRecording = () => new Promise<Recording | null>((resolve) => {
+    const recorder = recorderRef.current;
+    if (!recorder) {
+      resolve(null);
+      return;
+    }
+
+    const chunks: Blob[] = [];
+    recorder.ondataavailable = (e) => chunks.push(e.data);
+    recorder.onstop = () => {
+      const type = recorder.mimeType || 'audio/webm';
+      resolve({ audio: new Blob(chunks, { type }), filename: recordingFilename(type) });
+    };
+    recorder.stop();
+    release();
+  });
+
+  const cancelRecording = () => {
+    const recorder = recorderRef.current;
+    if (!recorder) return;
+
+    recorder.ondataavailable = null;
+    recorder.onstop = null;
+    recorder.stop();
+    release();
+  };
+
+  return { isRecording, elapsedSeconds, startRecording, stopRecording, cancelRecording };
+}
+
+const TRANSCRIPT_STATUS_LABELS: Record<TranscriptStatus, string> = {
+  pending: 'Waiting to transcribe',
+  processing: 'Transcribing...',
+  done: 'Transcribed',
+  failed: 'Transcription failed',
+};
+
+export function transcriptStatusLabel(status: TranscriptStatus): string {
+  return TRANSCRIPT_STATUS_LABELS[status];
+}
+
+export function isTranscribing(status: TranscriptStatus | null | undefined): boolean {
+  return status === 'pending' || status === 'processing';
+}
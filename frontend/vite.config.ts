@@ -1,8 +1,36 @@
-import { defineConfig } from 'vite';
+import { defineConfig, Plugin } from 'vite';
 import react from '@vitejs/plugin-react';
 
+// Lists the build's hashed JS and CSS for public/sw.js to precache, so the app opens offline
+// even if those files were never requested while online. The version changes with every build
+// that changes an asset, which makes the service worker install a fresh cache.
+function precacheManifest(): Plugin {
+  return {
+    name: 'omnirambles-precache-manifest',
+    apply: 'build',
+    generateBundle(_options, bundle) {
+      const urls = Object.keys(bundle)
+        .filter((fileName) => /^assets\/.*\.(js|css)$/.test(fileName))
+        .sort()
+        .map((fileName) => `/${fileName}`);
+      // The file names already carry content hashes, so a short hash of the list is enough
+      let hash = 0;
+      for (const char of urls.join('\n')) {
+        hash = (hash * 31 + char.charCodeAt(0)) >>> 0;
+      }
+      const version = hash.toString(36);
+
+      this.emitFile({
+        type: 'asset',
+        fileName: 'precache-manifest.js',
+        source: `self.__PRECACHE_MANIFEST = ${JSON.stringify({ version, urls })};\n`,
+      });
+    },
+  };
+}
+
 export default defineConfig({
-  plugins: [react()],
+  plugins: [react(), precacheManifest()],
   server: {
     host: '0.0.0.0',
     port: 5173,